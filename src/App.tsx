@@ -1,21 +1,54 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { createBrowserRouter, RouterProvider, Outlet } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
+import { ToastProvider } from './contexts/ToastProvider';
 import HomePage from './pages/HomePage';
 import AuthCallbackPage from './pages/AuthCallbackPage';
 import TagsPage from './pages/TagsPage';
+import LoginPage from './pages/LoginPage';
+import SessionsPage from './pages/SessionsPage';
+import RequireAuth from './components/RequireAuth';
 
-function App() {
+// Provider가 useNavigate를 쓰므로 라우터 안쪽 레이아웃에서 감싼다
+function AppLayout() {
   return (
-    <Router>
+    <ToastProvider>
       <AuthProvider>
-        <Routes>
-          <Route path="/" element={<HomePage />} />
-          <Route path="/api/auth/callback" element={<AuthCallbackPage />} />
-          <Route path="/tags" element={<TagsPage />} />
-        </Routes>
+        <Outlet />
       </AuthProvider>
-    </Router>
+    </ToastProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+// Data router (useBlocker 등 네비게이션 가드 사용을 위해 필요)
+const router = createBrowserRouter([
+  {
+    element: <AppLayout />,
+    children: [
+      { path: '/', element: <HomePage /> },
+      { path: '/login', element: <LoginPage /> },
+      { path: '/api/auth/callback', element: <AuthCallbackPage /> },
+      {
+        path: '/tags',
+        element: (
+          <RequireAuth holdOnSessionEnd>
+            <TagsPage />
+          </RequireAuth>
+        ),
+      },
+      {
+        path: '/account/sessions',
+        element: (
+          <RequireAuth>
+            <SessionsPage />
+          </RequireAuth>
+        ),
+      },
+    ],
+  },
+]);
+
+function App() {
+  return <RouterProvider router={router} />;
+}
+
+export default App;
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import TagAutocomplete from './TagAutocomplete';
+import { matchStream } from '../services/alertMatcher';
+import type {
+  AlertMatchResult,
+  AlertMatchSettings,
+  AlertVerdict,
+  TagMatch,
+} from '../services/alertMatcher';
+import { DELIVERY_MODE_LABELS, isDigestMode } from '../services/notificationSettings';
+import type { DeliverySettings } from '../types/notification';
+
+interface AlertTesterProps {
+  /** Tag set to test against (the page's unsaved edits) */
+  settings: AlertMatchSettings;
+  delivery?: DeliverySettings | null;
+}
+
+const VERDICT_LABELS: Record<AlertVerdict, string> = {
+  ALERT: 'Would alert',
+  HELD: 'Held back',
+  NO_MATCH: 'No alert',
+  BLOCKED: 'No alert',
+  NOTIFICATIONS_OFF: 'No alert',
+};
+
+const VERDICT_STYLES: Record<AlertVerdict, string> = {
+  ALERT: 'border-green-700 text-green-300',
+  HELD: 'border-amber-700 text-amber-300',
+  NO_MATCH: 'border-gray-600 text-gray-300',
+  BLOCKED: 'border-red-700 text-red-300',
+  NOTIFICATIONS_OFF: 'border-red-700 text-red-300',
+};
+
+const splitTags = (text: string): string[] =>
+  text
+    .split(/[,\r\n]+/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+const describeTagMatch = ({ matched, status }: TagMatch): { label: string; className: string } => {
+  if (!matched) return { label: 'No match', className: 'text-gray-500' };
+  if (status === 'muted') return { label: 'Matched (muted)', className: 'text-amber-400' };
+  if (status === 'snoozed') return { label: 'Matched (snoozed)', className: 'text-amber-400' };
+  return { label: 'Matched', className: 'text-green-400' };
+};
+
+/**
+ * "Would this stream alert me?" panel: enter a stream's channel, title,
+ * category and tags and see which of the member's tags and rules match it
+ */
+export default function AlertTester({ settings, delivery }: AlertTesterProps) {
+  const [channelName, setChannelName] = useState('');
+  const [title, setTitle] = useState('');
+  const [category, setCategory] = useState('');
+  const [tagsText, setTagsText] = useState('');
+
+  const stream = {
+    channelName: channelName.trim(),
+    title: title.trim(),
+    category: category.trim(),
+    tags: splitTags(tagsText),
+  };
+  const hasInput = !!stream.channelName || !!stream.category || stream.tags.length > 0;
+  const result = hasInput ? matchStream(stream, settings) : null;
+
+  const describeVerdict = ({ verdict, channelList }: AlertMatchResult): string => {
+    const isFavorite = channelList === 'FAVORITE';
+    switch (verdict) {
+      case 'ALERT':
+        return `${isFavorite ? 'This is a favorite channel. ' : ''}${
+          delivery && isDigestMode(delivery.mode)
+            ? `It would be included in your ${DELIVERY_MODE_LABELS[delivery.mode].toLowerCase()}.`
+            : 'You would get a Discord DM as soon as it goes live.'
+        }`;
+      case 'HELD':
+        return `${isFavorite ? 'This is a favorite channel' : 'It matches'}, but quiet hours are in effect. The alert is sent when they end.`;
+      case 'NO_MATCH':
+        return 'None of your active tags or rules match this stream.';
+      case 'BLOCKED':
+        return 'This channel is blocked, so nothing is sent even if your tags match.';
+      case 'NOTIFICATIONS_OFF':
+        return 'Notifications are turned off, so nothing is sent.';
+    }
+  };
+
+  return (
+    <div className="mt-8 p-4 rounded-lg bg-gray-800 border border-gray-700">
+      <h3 className="text-lg font-semibold text-white mb-1">Test a stream</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Check whether a stream would alert you, using your current edits (including unsaved ones).
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-gray-400">
+          Channel
+          <input
+            type="text"
+            value={channelName}
+            onChange={(e) => setChannelName(e.target.value)}
+            placeholder="Channel name"
+            className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-indigo-500"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          Title
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Stream title"
+            className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-indigo-500"
+          />
+        </label>
+        <div className="flex flex-col gap-1 text-gray-400">
+          Category
+          <TagAutocomplete
+            value={category}
+            onChange={setCategory}
+            onSelect={(tag) => setCategory(tag.name)}
+            tagType="CATEGORY"
+            placeholder="e.g. League of Legends"
+          />
+        </div>
+        <label className="flex flex-col gap-1 text-gray-400">
+          Tags
+          <textarea
+            value={tagsText}
+            onChange={(e) => setTagsText(e.target.value)}
+            rows={2}
+            placeholder="Comma or newline separated"
+            className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-indigo-500"
+          />
+        </label>
+      </div>
+
+      <div role="status" aria-live="polite">
+        {result && (
+          <div className="mt-4">
+            <div className={`p-3 rounded-lg bg-gray-900 border ${VERDICT_STYLES[result.verdict]}`}>
+              <p className="font-semibold">{VERDICT_LABELS[result.verdict]}</p>
+              <p className="text-sm text-gray-400">{describeVerdict(result)}</p>
+            </div>
+
+            {result.tagMatches.length > 0 && (
+              <ul className="mt-3 divide-y divide-gray-700 text-sm" aria-label="Your tags">
+                {result.tagMatches.map((match) => {
+                  const { label, className } = describeTagMatch(match);
+                  return (
+                    <li
+                      key={`${match.tagType}:${match.tagName}`}
+                      className="flex items-center justify-between py-1.5"
+                    >
+                      <span className="text-gray-300">
+                        <span className="mr-2 text-xs text-gray-500">
+                          {match.tagType === 'CATEGORY' ? 'Category' : 'Tag'}
+                        </span>
+                        {match.tagName}
+                      </span>
+                      <span className={className}>{label}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {result.ruleMatches.length > 0 && (
+              <ul className="mt-3 divide-y divide-gray-700 text-sm" aria-label="Your rules">
+                {result.ruleMatches.map(({ rule, matched, error }) => (
+                  <li key={rule.id} className="flex items-center justify-between gap-3 py-1.5">
+                    <span className="text-gray-300">
+                      <span className="mr-2 text-xs text-gray-500">Rule</span>
+                      {rule.name}
+                    </span>
+                    <span className={matched ? 'text-green-400' : 'text-gray-500'}>
+                      {error ? 'Invalid rule' : matched ? 'Matched' : 'No match'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {stream.title && (
+              <p className="mt-3 text-xs text-gray-500">
+                Titles are not matched; only the category and tags are.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
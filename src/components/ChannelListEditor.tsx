@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useChannelSearch } from '../hooks/useChannelSearch';
+import type { Channel, ChannelListType, ChannelSearchResult } from '../types/tag';
+
+interface ChannelListEditorProps {
+  blocked: Channel[];
+  favorites: Channel[];
+  onChange: (channels: { blockedChannels: Channel[]; favoriteChannels: Channel[] }) => void;
+  disabled?: boolean;
+}
+
+interface ChannelSection {
+  listType: ChannelListType;
+  title: string;
+  channels: Channel[];
+  empty: string;
+}
+
+const LIST_LABELS: Record<ChannelListType, string> = {
+  FAVORITE: 'Favorite',
+  BLOCKED: 'Blocked',
+};
+
+const CHIP_STYLES: Record<ChannelListType, string> = {
+  FAVORITE: 'bg-amber-600 text-white',
+  BLOCKED: 'bg-red-800 text-red-100',
+};
+
+const formatFollowerCount = (count: number): string =>
+  count >= 1000 ? `${(count / 1000).toFixed(1)}k` : count.toString();
+
+const toChannel = ({ channelId, channelName, channelImageUrl }: ChannelSearchResult): Channel => ({
+  channelId,
+  channelName,
+  channelImageUrl,
+});
+
+/**
+ * Channel search with blocked and favorite lists
+ * Favorites always notify when they go live, regardless of tags; blocked
+ * channels never notify. A channel is in at most one of the two lists.
+ */
+export default function ChannelListEditor({
+  blocked,
+  favorites,
+  onChange,
+  disabled = false,
+}: ChannelListEditorProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const { results, isLoading } = useChannelSearch(searchTerm);
+
+  const listOf = (channelId: string): ChannelListType | null =>
+    favorites.some((channel) => channel.channelId === channelId)
+      ? 'FAVORITE'
+      : blocked.some((channel) => channel.channelId === channelId)
+        ? 'BLOCKED'
+        : null;
+
+  const without = (list: Channel[], channelId: string) =>
+    list.filter((channel) => channel.channelId !== channelId);
+
+  // 다른 목록에 있던 채널은 옮김
+  const addTo = (listType: ChannelListType, channel: Channel) =>
+    onChange({
+      blockedChannels:
+        listType === 'BLOCKED'
+          ? [...without(blocked, channel.channelId), channel]
+          : without(blocked, channel.channelId),
+      favoriteChannels:
+        listType === 'FAVORITE'
+          ? [...without(favorites, channel.channelId), channel]
+          : without(favorites, channel.channelId),
+    });
+
+  const remove = (channelId: string) =>
+    onChange({
+      blockedChannels: without(blocked, channelId),
+      favoriteChannels: without(favorites, channelId),
+    });
+
+  const sections: ChannelSection[] = [
+    {
+      listType: 'FAVORITE',
+      title: 'Favorites — always notify when live',
+      channels: favorites,
+      empty: 'No favorite channels yet.',
+    },
+    {
+      listType: 'BLOCKED',
+      title: 'Blocked — never notify',
+      channels: blocked,
+      empty: 'No blocked channels.',
+    },
+  ];
+
+  return (
+    <div>
+      <input
+        type="search"
+        value={searchTerm}
+        onChange={(e) => setSearchTerm(e.target.value)}
+        disabled={disabled}
+        placeholder="Search channels"
+        aria-label="Search channels"
+        className="w-full px-4 py-2 rounded-lg bg-gray-800 border border-gray-700 text-white placeholder-gray-500 focus:outline-none focus:border-indigo-500"
+      />
+
+      {searchTerm.trim() && (
+        <div className="mt-2 rounded-lg bg-gray-800 border border-gray-700" aria-busy={isLoading}>
+          {isLoading && results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-400">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-400">No channels found</p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto divide-y divide-gray-700" aria-label="Channels">
+              {results.map((result) => {
+                const current = listOf(result.channelId);
+                return (
+                  <li key={result.channelId} className="flex items-center gap-3 px-4 py-2">
+                    {result.channelImageUrl ? (
+                      <img
+                        src={result.channelImageUrl}
+                        alt=""
+                        className="h-8 w-8 rounded-full object-cover"
+                      />
+                    ) : (
+                      <span className="h-8 w-8 rounded-full bg-gray-700" aria-hidden="true" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-white">{result.channelName}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatFollowerCount(result.followerCount)} followers
+                        {current && ` · ${LIST_LABELS[current]}`}
+                      </p>
+                    </div>
+                    {(['FAVORITE', 'BLOCKED'] as const).map((listType) => (
+                      <button
+                        key={listType}
+                        type="button"
+                        onClick={() => addTo(listType, toChannel(result))}
+                        disabled={disabled || current === listType}
+                        className="px-3 py-1 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {listType === 'FAVORITE' ? 'Favorite' : 'Block'}
+                      </button>
+                    ))}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {sections.map(({ listType, title, channels, empty }) => (
+        <div key={listType} className="mt-4">
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">{title}</h4>
+          {channels.length === 0 ? (
+            <p className="text-sm text-gray-500">{empty}</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {channels.map((channel) => (
+                <span
+                  key={channel.channelId}
+                  className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm ${CHIP_STYLES[listType]}`}
+                >
+                  {channel.channelName}
+                  <button
+                    type="button"
+                    onClick={() => remove(channel.channelId)}
+                    disabled={disabled}
+                    className="leading-none opacity-70 hover:opacity-100"
+                    aria-label={`Remove ${channel.channelName} from ${LIST_LABELS[listType].toLowerCase()} channels`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import DigestPreview from './DigestPreview';
+import { useServerForm } from '../hooks/useServerForm';
+import {
+  DEFAULT_DELIVERY,
+  DELIVERY_MODE_LABELS,
+  buildDigestPreview,
+  describeDeliverySchedule,
+  getLocalTimeZone,
+  getTimeZoneOptions,
+  isDigestMode,
+} from '../services/notificationSettings';
+import type { DeliveryMode, DeliverySettings } from '../types/notification';
+
+interface DeliverySettingsEditorProps {
+  /** Saved delivery settings, or null if the member never set them */
+  value: DeliverySettings | null;
+  /** Tags the digest preview is built from (muted/snoozed tags already excluded) */
+  previewCustomTags: string[];
+  previewCategoryTags: string[];
+  saving?: boolean;
+  disabled?: boolean;
+  onSave: (settings: DeliverySettings) => void;
+}
+
+const DELIVERY_MODES: DeliveryMode[] = ['INSTANT', 'HOURLY_DIGEST', 'DAILY_DIGEST'];
+const HOURLY_MINUTES = ['00', '15', '30', '45'];
+
+const toForm = (value: DeliverySettings | null): DeliverySettings =>
+  value ?? { ...DEFAULT_DELIVERY, timeZone: getLocalTimeZone() };
+
+const isSameDelivery = (a: DeliverySettings, b: DeliverySettings): boolean =>
+  a.mode === b.mode && a.deliveryTime === b.deliveryTime && a.timeZone === b.timeZone;
+
+const isSavedForm = (form: DeliverySettings, value: DeliverySettings | null): boolean =>
+  isSameDelivery(form, toForm(value));
+
+/**
+ * Delivery mode setting: send each alert instantly or bundle them into an
+ * hourly/daily digest sent at a chosen time
+ */
+export default function DeliverySettingsEditor({
+  value,
+  previewCustomTags,
+  previewCategoryTags,
+  saving = false,
+  disabled = false,
+  onSave,
+}: DeliverySettingsEditorProps) {
+  const [form, setForm] = useServerForm(value, toForm, isSavedForm);
+  const [timeZones] = useState(getTimeZoneOptions);
+
+  const isDirty = !isSavedForm(form, value);
+  const isDigest = isDigestMode(form.mode);
+  const isHourly = form.mode === 'HOURLY_DIGEST';
+
+  const update = (patch: Partial<DeliverySettings>) =>
+    setForm((current) => ({ ...current, ...patch }));
+
+  // 매시 발송은 분만 사용 (시는 서버에서 무시)
+  const handleMinuteChange = (minute: string) =>
+    update({ deliveryTime: `${form.deliveryTime.slice(0, 2)}:${minute}` });
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h4 className="font-semibold text-white">Delivery</h4>
+          <p className="text-sm text-gray-400">{describeDeliverySchedule(toForm(value))}</p>
+        </div>
+        <div role="radiogroup" aria-label="Delivery mode" className="flex rounded-lg bg-gray-900 p-1">
+          {DELIVERY_MODES.map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              role="radio"
+              aria-checked={form.mode === mode}
+              onClick={() => update({ mode })}
+              disabled={disabled || saving}
+              className={`px-3 py-1.5 rounded-md text-sm transition-colors disabled:cursor-not-allowed ${
+                form.mode === mode
+                  ? 'bg-indigo-600 text-white'
+                  : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {DELIVERY_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isDigest && (
+        <>
+          <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+            {isHourly ? (
+              <label className="flex flex-col gap-1 text-gray-400">
+                Minute past the hour
+                <select
+                  value={form.deliveryTime.slice(3)}
+                  onChange={(e) => handleMinuteChange(e.target.value)}
+                  disabled={disabled || saving}
+                  className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+                >
+                  {!HOURLY_MINUTES.includes(form.deliveryTime.slice(3)) && (
+                    <option value={form.deliveryTime.slice(3)}>:{form.deliveryTime.slice(3)}</option>
+                  )}
+                  {HOURLY_MINUTES.map((minute) => (
+                    <option key={minute} value={minute}>
+                      :{minute}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <label className="flex flex-col gap-1 text-gray-400">
+                Delivery time
+                <input
+                  type="time"
+                  value={form.deliveryTime}
+                  onChange={(e) => update({ deliveryTime: e.target.value })}
+                  disabled={disabled || saving}
+                  className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+                />
+              </label>
+            )}
+            <label className="flex flex-col gap-1 text-gray-400">
+              Time zone
+              <select
+                value={form.timeZone}
+                onChange={(e) => update({ timeZone: e.target.value })}
+                disabled={disabled || saving}
+                className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+              >
+                {!timeZones.includes(form.timeZone) && (
+                  <option value={form.timeZone}>{form.timeZone}</option>
+                )}
+                {timeZones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <DigestPreview
+            mode={form.mode}
+            items={buildDigestPreview(previewCustomTags, previewCategoryTags)}
+            schedule={describeDeliverySchedule(form)}
+          />
+        </>
+      )}
+
+      <div className="mt-4 flex justify-end">
+        <button
+          type="button"
+          onClick={() => onSave(form)}
+          disabled={disabled || saving || !isDirty || !form.deliveryTime}
+          className="px-4 py-2 rounded-lg text-sm bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save delivery'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { DELIVERY_MODE_LABELS } from '../services/notificationSettings';
+import type { DeliveryMode, DigestPreviewItem } from '../types/notification';
+
+interface DigestPreviewProps {
+  mode: DeliveryMode;
+  items: DigestPreviewItem[];
+  /** Schedule line shown under the title, e.g. "Every day at 09:00 (Asia/Seoul)" */
+  schedule: string;
+}
+
+/**
+ * Sample Discord digest message built from the member's current tags
+ */
+export default function DigestPreview({ mode, items, schedule }: DigestPreviewProps) {
+  return (
+    <div
+      className="mt-4 rounded-lg bg-gray-900 border border-gray-700 p-3 text-sm"
+      aria-label="Digest preview"
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <span className="px-1.5 py-0.5 rounded bg-indigo-600 text-white text-xs font-semibold">
+          BOT
+        </span>
+        <span className="font-semibold text-white">Chzzk Scout</span>
+        <span className="text-xs text-gray-500">Preview</span>
+      </div>
+
+      <div className="border-l-4 border-indigo-500 pl-3">
+        <p className="font-semibold text-white">
+          {DELIVERY_MODE_LABELS[mode]}: {items.length} live{' '}
+          {items.length === 1 ? 'stream' : 'streams'}
+        </p>
+        <p className="text-xs text-gray-500 mb-2">{schedule}</p>
+
+        {items.length === 0 ? (
+          <p className="text-gray-400">
+            No active tags. Add or unmute a tag to see what a digest would contain.
+          </p>
+        ) : (
+          <ul className="space-y-1.5">
+            {items.map((item) => (
+              <li key={`${item.channelName}-${item.matchedTag}`} className="text-gray-300">
+                <span className="font-medium text-white">{item.channelName}</span>
+                <span className="text-gray-500"> · </span>
+                {item.title}
+                <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-700 text-xs text-gray-300">
+                  {item.matchedTag}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
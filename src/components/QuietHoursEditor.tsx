@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useServerForm } from '../hooks/useServerForm';
+import {
+  DEFAULT_QUIET_HOURS,
+  getLocalTimeZone,
+  getTimeZoneOptions,
+  isWithinQuietHours,
+} from '../services/notificationSettings';
+import type { QuietHours } from '../types/notification';
+
+interface QuietHoursEditorProps {
+  /** Saved quiet hours, or null if the member never set them */
+  value: QuietHours | null;
+  saving?: boolean;
+  disabled?: boolean;
+  onSave: (quietHours: QuietHours) => void;
+}
+
+const toForm = (value: QuietHours | null): QuietHours =>
+  value ?? { ...DEFAULT_QUIET_HOURS, timeZone: getLocalTimeZone() };
+
+const isSameQuietHours = (a: QuietHours, b: QuietHours): boolean =>
+  a.enabled === b.enabled && a.start === b.start && a.end === b.end && a.timeZone === b.timeZone;
+
+const isSavedForm = (form: QuietHours, value: QuietHours | null): boolean =>
+  isSameQuietHours(form, toForm(value));
+
+/**
+ * Settings section for account-wide quiet hours (alerts are held back
+ * between `start` and `end` in the chosen time zone)
+ */
+export default function QuietHoursEditor({
+  value,
+  saving = false,
+  disabled = false,
+  onSave,
+}: QuietHoursEditorProps) {
+  const [form, setForm] = useServerForm(value, toForm, isSavedForm);
+  const [timeZones] = useState(getTimeZoneOptions);
+
+  const isDirty = !isSavedForm(form, value);
+  const isEmptyWindow = form.enabled && form.start === form.end;
+  const activeNow = isWithinQuietHours(value);
+
+  const update = (patch: Partial<QuietHours>) => setForm((current) => ({ ...current, ...patch }));
+
+  return (
+    <div className="mb-8 p-4 rounded-lg bg-gray-800 border border-gray-700">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-1">Quiet hours</h3>
+          <p className="text-sm text-gray-400">Hold back alerts during these hours</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            disabled={disabled || saving}
+            className="h-4 w-4 accent-indigo-600"
+          />
+          Enabled
+        </label>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-gray-400">
+          From
+          <input
+            type="time"
+            value={form.start}
+            onChange={(e) => update({ start: e.target.value })}
+            disabled={disabled || saving || !form.enabled}
+            className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          To
+          <input
+            type="time"
+            value={form.end}
+            onChange={(e) => update({ end: e.target.value })}
+            disabled={disabled || saving || !form.enabled}
+            className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          Time zone
+          <select
+            value={form.timeZone}
+            onChange={(e) => update({ timeZone: e.target.value })}
+            disabled={disabled || saving || !form.enabled}
+            className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+          >
+            {!timeZones.includes(form.timeZone) && (
+              <option value={form.timeZone}>{form.timeZone}</option>
+            )}
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between gap-3 text-sm">
+        <p className={isEmptyWindow ? 'text-red-400' : 'text-gray-500'}>
+          {isEmptyWindow
+            ? 'Start and end times must differ'
+            : activeNow
+              ? 'Quiet hours are in effect now'
+              : value?.enabled
+                ? `Alerts are held back ${value.start}–${value.end} (${value.timeZone})`
+                : 'Alerts are sent at any time'}
+        </p>
+        <button
+          type="button"
+          onClick={() => onSave(form)}
+          disabled={disabled || saving || !isDirty || isEmptyWindow}
+          className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { buildLoginPath } from '../services/oauthState';
+
+interface RequireAuthProps {
+  children: ReactNode;
+  /**
+   * Keep the page mounted after a logout in another tab until it calls
+   * `acknowledgeSessionEnd` (for pages that guard unsaved edits)
+   */
+  holdOnSessionEnd?: boolean;
+}
+
+/**
+ * Route element that only renders its children for signed-in users
+ * Unauthenticated users are sent to `/login`, keeping the requested page
+ * (including its query string) so they come back to it after logging in.
+ * After a logout in another tab the page is left the same way, unless it
+ * opts in with `holdOnSessionEnd`: then it stays mounted until it calls
+ * `acknowledgeSessionEnd`, so it can protect unsaved edits first.
+ *
+ * Usage:
+ * <Route path="/tags" element={<RequireAuth holdOnSessionEnd><TagsPage /></RequireAuth>} />
+ */
+export default function RequireAuth({ children, holdOnSessionEnd = false }: RequireAuthProps) {
+  const { isAuthenticated, isLoading, sessionEndedElsewhere } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated && !(holdOnSessionEnd && sessionEndedElsewhere)) {
+    return <Navigate to={buildLoginPath(`${location.pathname}${location.search}`)} replace />;
+  }
+
+  return <>{children}</>;
+}
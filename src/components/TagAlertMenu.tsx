@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from 'react';
+import { getTagAlertStatus, SNOOZE_HOURS_OPTIONS, snoozeUntil } from '../services/notificationSettings';
+import type { MemberTag } from '../types/tag';
+
+interface TagAlertMenuProps {
+  tag: MemberTag;
+  disabled?: boolean;
+  onChange: (settings: { muted: boolean; snoozedUntil: string | null }) => void;
+}
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Per-tag alert control shown inside a saved tag chip
+ * Shows muted/snoozed status and a menu to mute, snooze for N hours or resume.
+ */
+export default function TagAlertMenu({ tag, disabled = false, onChange }: TagAlertMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const wrapperRef = useRef<HTMLSpanElement>(null);
+
+  const status = getTagAlertStatus(tag);
+  const label =
+    status === 'muted'
+      ? 'Muted'
+      : status === 'snoozed' && tag.snoozedUntil
+        ? `Snoozed until ${formatTime(tag.snoozedUntil)}`
+        : null;
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    function handleClickOutside(event: MouseEvent) {
+      if (wrapperRef.current && !wrapperRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const choose = (settings: { muted: boolean; snoozedUntil: string | null }) => {
+    setIsOpen(false);
+    onChange(settings);
+  };
+
+  const menuItemClass =
+    'block w-full px-3 py-2 text-left text-sm text-white hover:bg-gray-700 focus:bg-gray-700 focus:outline-none';
+
+  return (
+    <span ref={wrapperRef} className="relative inline-flex items-center">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setIsOpen(false);
+        }}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label={`Alert settings for ${tag.tagName}`}
+        title="Alert settings"
+        className={`ml-2 px-1.5 rounded text-xs transition-colors disabled:opacity-50 ${
+          label ? 'bg-black/30 text-gray-200' : 'text-white/60 hover:text-white'
+        }`}
+      >
+        {label ?? '⋯'}
+      </button>
+
+      {isOpen && (
+        <span
+          role="menu"
+          className="absolute left-0 top-full z-20 mt-1 w-44 py-1 rounded-lg bg-gray-800 border border-gray-700 shadow-lg"
+        >
+          <button
+            type="button"
+            role="menuitem"
+            className={menuItemClass}
+            onClick={() => choose({ muted: !tag.muted, snoozedUntil: null })}
+          >
+            {tag.muted ? 'Unmute' : 'Mute'}
+          </button>
+          {status === 'snoozed' && (
+            <button
+              type="button"
+              role="menuitem"
+              className={menuItemClass}
+              onClick={() => choose({ muted: false, snoozedUntil: null })}
+            >
+              Resume alerts
+            </button>
+          )}
+          {!tag.muted &&
+            SNOOZE_HOURS_OPTIONS.map((hours) => (
+              <button
+                key={hours}
+                type="button"
+                role="menuitem"
+                className={menuItemClass}
+                onClick={() => choose({ muted: false, snoozedUntil: snoozeUntil(hours) })}
+              >
+                Snooze {hours}h
+              </button>
+            ))}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -9,6 +9,10 @@
  * - Loading states
  * - Empty states
  * - Accessibility (ARIA attributes, keyboard navigation)
+ * - Request cancellation, response ordering and suggestion caching
+ * - Korean initial-consonant / jamo matching, highlighting and IME composition
+ * - Recent and popular tags for an empty input
+ * - Paginated results (scroll / arrow past the end to load more)
  *
  * To run tests:
  * npm test TagAutocomplete.test.tsx
@@ -16,10 +20,11 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
-import userEvent from '@testing-library/user-event';
 import TagAutocomplete from './TagAutocomplete';
-import { TagType } from '../types/tag';
 import * as tagService from '../services/tagService';
+import { clearSuggestionCache } from '../services/tagSuggestionCache';
+import { clearQueryCache } from '../services/queryCache';
+import { addRecentTag, loadRecentTags } from '../services/recentTags';
 
 // Mock the tag service
 vi.mock('../services/tagService');
@@ -33,6 +38,7 @@ const mockSuggestions = [
 describe('TagAutocomplete', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    clearSuggestionCache();
     vi.useFakeTimers();
   });
 
@@ -70,18 +76,13 @@ describe('TagAutocomplete', () => {
       const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
       mockFetch.mockResolvedValue(mockSuggestions);
 
-      const onChange = vi.fn();
-      render(
-        <TagAutocomplete
-          value=""
-          onChange={onChange}
-        />
-      );
-
-      const input = screen.getByRole('textbox');
-
-      // Type quickly
-      await userEvent.type(input, 'lol');
+      // Type quickly (value is controlled by the parent)
+      const { rerender } = render(<TagAutocomplete value="" onChange={() => {}} />);
+      rerender(<TagAutocomplete value="l" onChange={() => {}} />);
+      vi.advanceTimersByTime(100);
+      rerender(<TagAutocomplete value="lo" onChange={() => {}} />);
+      vi.advanceTimersByTime(100);
+      rerender(<TagAutocomplete value="lol" onChange={() => {}} />);
 
       // API should not be called immediately
       expect(mockFetch).not.toHaveBeenCalled();
@@ -92,6 +93,10 @@ describe('TagAutocomplete', () => {
       await waitFor(() => {
         expect(mockFetch).toHaveBeenCalledTimes(1);
       });
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.objectContaining({ prefix: 'lol' }),
+        expect.any(AbortSignal)
+      );
     });
 
     it('should show suggestions when results are available', async () => {
@@ -150,13 +155,13 @@ describe('TagAutocomplete', () => {
         expect(screen.getByText('LOL')).toBeInTheDocument();
       });
 
-      const input = screen.getByRole('textbox');
+      const input = screen.getByRole('combobox');
 
       // Press down arrow
       fireEvent.keyDown(input, { key: 'ArrowDown' });
 
       // First item should be highlighted (indigo background)
-      const firstItem = screen.getByText('LOL').closest('button');
+      const firstItem = screen.getByText('LOL').closest('[role="option"]');
       expect(firstItem).toHaveClass('bg-indigo-600');
     });
 
@@ -181,7 +186,7 @@ describe('TagAutocomplete', () => {
         expect(screen.getByText('LOL')).toBeInTheDocument();
       });
 
-      const input = screen.getByRole('textbox');
+      const input = screen.getByRole('combobox');
 
       // Navigate to first item and select
       fireEvent.keyDown(input, { key: 'ArrowDown' });
@@ -207,7 +212,7 @@ describe('TagAutocomplete', () => {
         expect(screen.getByText('LOL')).toBeInTheDocument();
       });
 
-      const input = screen.getByRole('textbox');
+      const input = screen.getByRole('combobox');
       fireEvent.keyDown(input, { key: 'Escape' });
 
       await waitFor(() => {
@@ -281,7 +286,7 @@ describe('TagAutocomplete', () => {
         <TagAutocomplete
           value="lol"
           onChange={() => {}}
-          tagType={TagType.CATEGORY}
+          tagType="CATEGORY"
         />
       );
 
@@ -291,10 +296,604 @@ describe('TagAutocomplete', () => {
         expect(mockFetch).toHaveBeenCalledWith(
           expect.objectContaining({
             prefix: 'lol',
-            tagType: TagType.CATEGORY,
-          })
+            tagType: 'CATEGORY',
+          }),
+          expect.any(AbortSignal)
+        );
+      });
+    });
+  });
+
+  describe('Request Handling', () => {
+    it('should abort the in-flight request when the term changes', async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockImplementation(() => new Promise(() => {})); // Never resolves
+
+      const { rerender } = render(
+        <TagAutocomplete
+          value="lo"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+      await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      const firstSignal = mockFetch.mock.calls[0][1] as AbortSignal;
+
+      rerender(
+        <TagAutocomplete
+          value="lol"
+          onChange={() => {}}
+        />
+      );
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+      expect(firstSignal.aborted).toBe(true);
+    });
+
+    it('should ignore a slow response for an older term', async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      let resolveOld: (results: typeof mockSuggestions) => void = () => {};
+      mockFetch
+        .mockImplementationOnce(() => new Promise((resolve) => { resolveOld = resolve; }))
+        .mockResolvedValueOnce([{ name: 'LOL', usageCount: 1500 }]);
+
+      const { rerender } = render(
+        <TagAutocomplete
+          value="lo"
+          onChange={() => {}}
+        />
+      );
+      vi.advanceTimersByTime(300);
+      await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+
+      rerender(
+        <TagAutocomplete
+          value="lol"
+          onChange={() => {}}
+        />
+      );
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.getByText('LOL')).toBeInTheDocument();
+      });
+
+      resolveOld([{ name: 'Lost Ark', usageCount: 800 }]);
+
+      await waitFor(() => {
+        expect(screen.queryByText('Lost Ark')).not.toBeInTheDocument();
+        expect(screen.getByText('LOL')).toBeInTheDocument();
+      });
+    });
+
+    it('should answer a longer prefix from a complete cached result', async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockResolvedValue(mockSuggestions); // 3 results < limit 10
+
+      const { rerender } = render(
+        <TagAutocomplete
+          value="l"
+          onChange={() => {}}
+        />
+      );
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.getByRole('option', { name: /Lost Ark/ })).toBeInTheDocument();
+      });
+
+      rerender(
+        <TagAutocomplete
+          value="lo"
+          onChange={() => {}}
+        />
+      );
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.queryByRole('option', { name: /League of Legends/ })).not.toBeInTheDocument();
+      });
+      expect(screen.getByRole('option', { name: /LOL/ })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: /Lost Ark/ })).toBeInTheDocument();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch a longer prefix when the cached result was truncated', async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      const fullPage = Array.from({ length: 10 }, (_, i) => ({
+        name: `L${i}`,
+        usageCount: 10 - i,
+      }));
+      mockFetch.mockResolvedValueOnce(fullPage).mockResolvedValueOnce(mockSuggestions);
+
+      const { rerender } = render(
+        <TagAutocomplete
+          value="l"
+          onChange={() => {}}
+        />
+      );
+      vi.advanceTimersByTime(300);
+      await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+
+      rerender(
+        <TagAutocomplete
+          value="lo"
+          onChange={() => {}}
+        />
+      );
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    });
+  });
+
+  describe('Korean Matching', () => {
+    const koreanSuggestions = [
+      { name: '랭크', usageCount: 900 },
+      { name: '랭크게임', usageCount: 300 },
+      { name: '리그 오브 레전드', usageCount: 700 },
+      { name: '닭갈비', usageCount: 20 },
+    ];
+
+    const renderWithTerm = async (value: string) => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockResolvedValue(koreanSuggestions);
+
+      render(
+        <TagAutocomplete
+          value={value}
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+      await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+      return mockFetch;
+    };
+
+    it('should match initial consonants (chosung)', async () => {
+      const mockFetch = await renderWithTerm('ㄹㅋ');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.objectContaining({ prefix: '' }),
+        expect.any(AbortSignal)
+      );
+      await waitFor(() => {
+        expect(screen.getAllByRole('option')).toHaveLength(2);
+      });
+      expect(screen.getByRole('option', { name: /^랭크게임/ })).toBeInTheDocument();
+      expect(screen.queryByRole('option', { name: /닭갈비/ })).not.toBeInTheDocument();
+    });
+
+    it('should skip spaces when matching initial consonants', async () => {
+      await renderWithTerm('ㄹㄱㅇㅂ');
+
+      await waitFor(() => {
+        expect(screen.getByRole('option', { name: /리그 오브 레전드/ })).toBeInTheDocument();
+      });
+      expect(screen.getByText('리그 오브').tagName).toBe('MARK');
+    });
+
+    it('should search a complete syllable as typed', async () => {
+      const mockFetch = await renderWithTerm('롤');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.objectContaining({ prefix: '롤' }),
+        expect.any(AbortSignal)
+      );
+      expect(mockFetch).not.toHaveBeenCalledWith(
+        expect.objectContaining({ prefix: '' }),
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('should leave out the syllable being composed only during composition', async () => {
+      const mockFetch = await renderWithTerm('랭크');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ prefix: '랭크' }),
+        expect.any(AbortSignal)
+      );
+
+      fireEvent.compositionStart(screen.getByRole('combobox'));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          expect.objectContaining({ prefix: '랭' }),
+          expect.any(AbortSignal)
+        );
+      });
+      await waitFor(() => {
+        expect(screen.getAllByRole('option')).toHaveLength(2);
+      });
+    });
+
+    it('should match a syllable that is still being composed', async () => {
+      const mockFetch = await renderWithTerm('랭ㅋ');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.objectContaining({ prefix: '랭' }),
+        expect.any(AbortSignal)
+      );
+      await waitFor(() => {
+        expect(screen.getAllByRole('option')).toHaveLength(2);
+      });
+    });
+
+    it('should keep loading pages until one has a match', async () => {
+      const unmatched = Array.from({ length: 50 }, (_, i) => ({
+        name: `랭글 ${i}`,
+        usageCount: 50 - i,
+      }));
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValueOnce(unmatched).mockResolvedValueOnce([koreanSuggestions[0]]);
+
+      render(
+        <TagAutocomplete
+          value="랭ㅋ"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.getByRole('option', { name: '랭크, 900 users' })).toBeInTheDocument();
+      });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ prefix: '랭', offset: 50 }),
+        expect.any(AbortSignal)
+      );
+      expect(screen.queryByText(/No tags found/)).not.toBeInTheDocument();
+    });
+
+    it('should stop after a few unmatched pages and offer to search further', async () => {
+      const unmatched = (from: number) =>
+        Array.from({ length: 50 }, (_, i) => ({ name: `랭글 ${from + i}`, usageCount: 1 }));
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockReset();
+      mockFetch
+        .mockResolvedValueOnce(unmatched(0))
+        .mockResolvedValueOnce(unmatched(50))
+        .mockResolvedValueOnce(unmatched(100))
+        .mockResolvedValueOnce(unmatched(150))
+        .mockResolvedValueOnce([koreanSuggestions[0]]);
+
+      render(
+        <TagAutocomplete
+          value="랭ㅋ"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      const searchFurther = await screen.findByRole('button', { name: 'Search further' });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(screen.queryByRole('option')).not.toBeInTheDocument();
+
+      fireEvent.click(searchFurther);
+
+      await waitFor(() => {
+        expect(screen.getByRole('option', { name: '랭크, 900 users' })).toBeInTheDocument();
+      });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ prefix: '랭', offset: 200 }),
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('should match a compound final consonant by its first jamo', async () => {
+      await renderWithTerm('달');
+
+      await waitFor(() => {
+        expect(screen.getByRole('option', { name: '닭갈비, 20 users' })).toBeInTheDocument();
+      });
+      expect(screen.getByText('닭').tagName).toBe('MARK');
+    });
+
+    it('should ignore case and full-width characters', async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockResolvedValue(mockSuggestions);
+
+      render(
+        <TagAutocomplete
+          value="ｌｏ"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(
+          expect.objectContaining({ prefix: 'lo' }),
+          expect.any(AbortSignal)
         );
       });
+      await waitFor(() => {
+        expect(screen.getByText('LO').tagName).toBe('MARK');
+      });
+      // 강조 표시가 있어도 항목 이름은 그대로
+      expect(screen.getByRole('option', { name: 'LOL, 1.5k users' })).toBeInTheDocument();
+    });
+
+    it('should not select a suggestion with Enter during IME composition', async () => {
+      const onSelect = vi.fn();
+      vi.mocked(tagService.fetchTagAutocomplete).mockResolvedValue(koreanSuggestions);
+
+      render(
+        <TagAutocomplete
+          value="랭"
+          onChange={() => {}}
+          onSelect={onSelect}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.getAllByRole('option').length).toBeGreaterThan(0);
+      });
+
+      const input = screen.getByRole('combobox');
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'Enter', isComposing: true, keyCode: 229 });
+      expect(onSelect).not.toHaveBeenCalled();
+
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onSelect).toHaveBeenCalledWith(koreanSuggestions[0]);
+    });
+  });
+
+  describe('Recent and Popular Tags', () => {
+    const memberUuid = 'member-1';
+    const popularTags = [
+      { name: 'LOL', usageCount: 1500 },
+      { name: 'Minecraft', usageCount: 1100 },
+      { name: 'Valorant', usageCount: 900 },
+    ];
+
+    beforeEach(() => {
+      clearQueryCache();
+      localStorage.clear();
+      vi.mocked(tagService.fetchPopularTags).mockResolvedValue(popularTags);
+    });
+
+    it('should open on focus with popular tags for the tag type', async () => {
+      render(
+        <TagAutocomplete
+          value=""
+          onChange={() => {}}
+          tagType="CATEGORY"
+        />
+      );
+
+      fireEvent.focus(screen.getByRole('combobox'));
+
+      await waitFor(() => {
+        expect(screen.getByRole('group', { name: 'Popular' })).toBeInTheDocument();
+      });
+      expect(tagService.fetchPopularTags).toHaveBeenCalledWith({ tagType: 'CATEGORY' });
+      expect(screen.getAllByRole('option')).toHaveLength(popularTags.length);
+      expect(screen.queryByRole('group', { name: 'Recent' })).not.toBeInTheDocument();
+    });
+
+    it('should show the member\'s recent tags above popular ones without duplicates', async () => {
+      addRecentTag(memberUuid, 'CUSTOM', { name: 'Valorant', usageCount: 900 });
+
+      render(
+        <TagAutocomplete
+          value=""
+          onChange={() => {}}
+          tagType="CUSTOM"
+          memberUuid={memberUuid}
+        />
+      );
+
+      fireEvent.focus(screen.getByRole('combobox'));
+
+      await waitFor(() => {
+        expect(screen.getByRole('group', { name: 'Popular' })).toBeInTheDocument();
+      });
+
+      const recent = screen.getByRole('group', { name: 'Recent' });
+      expect(recent).toHaveTextContent('Valorant');
+      expect(screen.getAllByRole('option', { name: /Valorant/ })).toHaveLength(1);
+      expect(screen.getAllByRole('option')[0]).toHaveTextContent('Valorant');
+    });
+
+    it('should keep recent tags per member and tag type', () => {
+      addRecentTag(memberUuid, 'CUSTOM', { name: 'LOL', usageCount: 1500 });
+
+      expect(loadRecentTags(memberUuid, 'CUSTOM')).toEqual([{ name: 'LOL', usageCount: 1500 }]);
+      expect(loadRecentTags(memberUuid, 'CATEGORY')).toEqual([]);
+      expect(loadRecentTags('member-2', 'CUSTOM')).toEqual([]);
+    });
+
+    it('should remember a picked tag as recent', async () => {
+      const onSelect = vi.fn();
+
+      render(
+        <TagAutocomplete
+          value=""
+          onChange={() => {}}
+          onSelect={onSelect}
+          tagType="CUSTOM"
+          memberUuid={memberUuid}
+        />
+      );
+
+      fireEvent.focus(screen.getByRole('combobox'));
+
+      await waitFor(() => {
+        expect(screen.getByRole('option', { name: /Minecraft/ })).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('option', { name: /Minecraft/ }));
+
+      expect(onSelect).toHaveBeenCalledWith(popularTags[1]);
+      expect(loadRecentTags(memberUuid, 'CUSTOM')[0].name).toBe('Minecraft');
+    });
+
+    it('should mark tags already in the list and not select them', async () => {
+      const onSelect = vi.fn();
+
+      render(
+        <TagAutocomplete
+          value=""
+          onChange={() => {}}
+          onSelect={onSelect}
+          tagType="CUSTOM"
+          existingTags={['lol']}
+        />
+      );
+
+      const input = screen.getByRole('combobox');
+      fireEvent.focus(input);
+
+      await waitFor(() => {
+        expect(screen.getByText('Already added')).toBeInTheDocument();
+      });
+
+      const added = screen.getByRole('option', { name: /LOL/ });
+      expect(added).toHaveAttribute('aria-disabled', 'true');
+
+      fireEvent.click(added);
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pagination', () => {
+    const page = (from: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        name: `LOL ${from + i}`,
+        usageCount: 100 - from - i,
+      }));
+
+    // clearAllMocks는 mockResolvedValueOnce로 쌓인 응답을 비우지 않으므로 테스트마다 초기화
+    beforeEach(() => {
+      vi.mocked(tagService.fetchTagAutocomplete).mockReset();
+    });
+
+    const renderFirstPage = async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockResolvedValueOnce(page(0, 10)).mockResolvedValueOnce(page(10, 4));
+
+      render(
+        <TagAutocomplete
+          value="lol"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.getAllByRole('option')).toHaveLength(10);
+      });
+      return mockFetch;
+    };
+
+    it('should hint that more results exist when a page is full', async () => {
+      await renderFirstPage();
+
+      expect(screen.getByText('10+ matching tags · scroll for more')).toBeInTheDocument();
+      expect(screen.getByRole('status')).toHaveTextContent('10 suggestions available, more below');
+    });
+
+    it('should load the next page when scrolled to the end', async () => {
+      const mockFetch = await renderFirstPage();
+
+      fireEvent.scroll(screen.getByRole('listbox'));
+
+      await waitFor(() => {
+        expect(screen.getAllByRole('option')).toHaveLength(14);
+      });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ prefix: 'lol', offset: 10 }),
+        expect.any(AbortSignal)
+      );
+      expect(screen.getByText('14 matching tags')).toBeInTheDocument();
+
+      // 마지막 페이지 이후에는 더 요청하지 않음
+      fireEvent.scroll(screen.getByRole('listbox'));
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should continue keyboard navigation into the next page', async () => {
+      await renderFirstPage();
+      const input = screen.getByRole('combobox');
+
+      fireEvent.keyDown(input, { key: 'End' });
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+      await waitFor(() => {
+        expect(screen.getAllByRole('option')).toHaveLength(14);
+      });
+      const options = screen.getAllByRole('option');
+      expect(input).toHaveAttribute('aria-activedescendant', options[10].id);
+      expect(options[10]).toHaveTextContent('LOL 10');
+    });
+
+    it('should retry a failed page from the same offset', async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch
+        .mockResolvedValueOnce(page(0, 10))
+        .mockRejectedValueOnce(new Error('Network Error'))
+        .mockResolvedValueOnce(page(10, 4));
+
+      render(
+        <TagAutocomplete
+          value="lol"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.getAllByRole('option')).toHaveLength(10);
+      });
+
+      fireEvent.scroll(screen.getByRole('listbox'));
+      await waitFor(() => {
+        expect(screen.getByText('10+ matching tags · scroll for more')).toBeInTheDocument();
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      fireEvent.scroll(screen.getByRole('listbox'));
+      await waitFor(() => {
+        expect(screen.getAllByRole('option')).toHaveLength(14);
+      });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ prefix: 'lol', offset: 10 }),
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('should not load more for a complete result', async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockResolvedValue(mockSuggestions);
+
+      render(
+        <TagAutocomplete
+          value="lol"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.getByText('3 matching tags')).toBeInTheDocument();
+      });
+
+      fireEvent.scroll(screen.getByRole('listbox'));
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -328,7 +927,7 @@ describe('TagAutocomplete', () => {
         />
       );
 
-      const input = screen.getByRole('textbox');
+      const input = screen.getByRole('combobox');
       expect(input).toHaveAttribute('autocomplete', 'off');
     });
 
@@ -349,10 +948,180 @@ describe('TagAutocomplete', () => {
         expect(screen.getByText('LOL')).toBeInTheDocument();
       });
 
-      const buttons = screen.getAllByRole('button');
-      buttons.forEach(button => {
-        expect(button).toHaveAttribute('type', 'button');
+      // Options are not tab stops; focus stays on the input
+      const options = screen.getAllByRole('option');
+      options.forEach(option => {
+        expect(option).not.toHaveAttribute('tabindex');
+      });
+      expect(screen.queryAllByRole('button')).toHaveLength(0);
+    });
+  });
+
+  describe('ARIA Combobox', () => {
+    const renderWithResults = async (results = mockSuggestions) => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockResolvedValue(results);
+
+      render(
+        <TagAutocomplete
+          value="l"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        // "Tag 1"이 "Tag 10"~"Tag 12"와도 맞지 않도록 앞뒤를 고정
+        expect(
+          screen.getByRole('option', { name: new RegExp(`^${results[0].name}\\b`) })
+        ).toBeInTheDocument();
+      });
+
+      return screen.getByRole('combobox');
+    };
+
+    const manySuggestions = Array.from({ length: 12 }, (_, i) => ({
+      name: `Tag ${i + 1}`,
+      usageCount: 12 - i,
+    }));
+
+    beforeEach(() => {
+      Element.prototype.scrollIntoView = vi.fn();
+    });
+
+    it('should render a collapsed combobox initially', () => {
+      render(
+        <TagAutocomplete
+          value=""
+          onChange={() => {}}
+        />
+      );
+
+      const input = screen.getByRole('combobox');
+      expect(input).toHaveAttribute('aria-expanded', 'false');
+      expect(input).toHaveAttribute('aria-autocomplete', 'list');
+      expect(input).not.toHaveAttribute('aria-activedescendant');
+    });
+
+    it('should control a listbox of options when expanded', async () => {
+      const input = await renderWithResults();
+
+      expect(input).toHaveAttribute('aria-expanded', 'true');
+
+      const listbox = screen.getByRole('listbox');
+      expect(input).toHaveAttribute('aria-controls', listbox.id);
+      expect(screen.getAllByRole('option')).toHaveLength(mockSuggestions.length);
+    });
+
+    it('should point aria-activedescendant at the highlighted option', async () => {
+      const input = await renderWithResults();
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+      const [first] = screen.getAllByRole('option');
+      expect(input).toHaveAttribute('aria-activedescendant', first.id);
+      expect(first).toHaveAttribute('aria-selected', 'true');
+
+      fireEvent.keyDown(input, { key: 'ArrowUp' });
+      expect(input).not.toHaveAttribute('aria-activedescendant');
+    });
+
+    it('should collapse on Escape and reopen with ArrowDown', async () => {
+      const input = await renderWithResults();
+
+      fireEvent.keyDown(input, { key: 'Escape' });
+      expect(input).toHaveAttribute('aria-expanded', 'false');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(input).toHaveAttribute('aria-expanded', 'true');
+      expect(input).toHaveAttribute('aria-activedescendant', screen.getAllByRole('option')[0].id);
+    });
+
+    it('should jump to the first and last option with Home and End', async () => {
+      const input = await renderWithResults(manySuggestions);
+      const options = screen.getAllByRole('option');
+
+      fireEvent.keyDown(input, { key: 'End' });
+      expect(input).toHaveAttribute('aria-activedescendant', options[11].id);
+
+      fireEvent.keyDown(input, { key: 'Home' });
+      expect(input).toHaveAttribute('aria-activedescendant', options[0].id);
+    });
+
+    it('should move by a page with PageDown and PageUp, clamped to the ends', async () => {
+      const input = await renderWithResults(manySuggestions);
+      const options = screen.getAllByRole('option');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'PageDown' });
+      expect(input).toHaveAttribute('aria-activedescendant', options[5].id);
+
+      fireEvent.keyDown(input, { key: 'PageDown' });
+      fireEvent.keyDown(input, { key: 'PageDown' });
+      expect(input).toHaveAttribute('aria-activedescendant', options[11].id);
+
+      fireEvent.keyDown(input, { key: 'PageUp' });
+      expect(input).toHaveAttribute('aria-activedescendant', options[6].id);
+
+      fireEvent.keyDown(input, { key: 'PageUp' });
+      fireEvent.keyDown(input, { key: 'PageUp' });
+      expect(input).toHaveAttribute('aria-activedescendant', options[0].id);
+    });
+
+    it('should scroll the highlighted option into view', async () => {
+      const input = await renderWithResults(manySuggestions);
+
+      fireEvent.keyDown(input, { key: 'End' });
+
+      await waitFor(() => {
+        expect(Element.prototype.scrollIntoView).toHaveBeenCalledWith({ block: 'nearest' });
+      });
+      const scrolled = vi.mocked(Element.prototype.scrollIntoView).mock.contexts.at(-1);
+      expect(scrolled).toBe(screen.getByText('Tag 12').closest('[role="option"]'));
+    });
+
+    it('should announce the number of results', async () => {
+      await renderWithResults();
+
+      expect(screen.getByRole('status')).toHaveTextContent('3 suggestions available');
+    });
+
+    it('should announce loading state', async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockImplementation(() => new Promise(() => {})); // Never resolves
+
+      render(
+        <TagAutocomplete
+          value="lol"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.getByRole('status')).toHaveTextContent('Loading suggestions...');
+      });
+    });
+
+    it('should announce when no tags are found', async () => {
+      const mockFetch = vi.mocked(tagService.fetchTagAutocomplete);
+      mockFetch.mockResolvedValue([]);
+
+      render(
+        <TagAutocomplete
+          value="nonexistent"
+          onChange={() => {}}
+        />
+      );
+
+      vi.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        expect(screen.getByRole('status')).toHaveTextContent('No matching tags');
       });
+      expect(screen.getByRole('combobox')).toHaveAttribute('aria-expanded', 'false');
     });
   });
 
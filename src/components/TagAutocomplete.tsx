@@ -1,24 +1,62 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useId } from 'react';
+import { useApiQuery } from '../hooks/useApiQuery';
 import { useTagAutocomplete } from '../hooks/useTagAutocomplete';
-import type { TagType, TagAutocompleteResult } from '../types/tag';
+import { queryKeys } from '../services/queryKeys';
+import { addRecentTag, loadRecentTags } from '../services/recentTags';
+import { isSameTagName, normalizeTagName, validateTagName } from '../services/tagName';
+import { matchTagName } from '../services/tagSearch';
+import { fetchPopularTags } from '../services/tagService';
+import type { TagType, TagSelection, TagAutocompleteResult } from '../types/tag';
 
 interface TagAutocompleteProps {
   value: string;
   onChange: (value: string) => void;
-  onSelect?: (tag: TagAutocompleteResult) => void;
+  onSelect?: (tag: TagSelection) => void;
   placeholder?: string;
   tagType?: TagType;
   className?: string;
+  /** Offer a "Create tag" option for names with no exact match (CUSTOM tags only) */
+  allowCreate?: boolean;
+  /** Tags the user already has; shown as "Already added" and rejected as new tags */
+  existingTags?: string[];
+  /** Member whose recently picked tags are shown when the input is empty (needs tagType) */
+  memberUuid?: string;
+  /** Called before the built-in key handling; call preventDefault() to skip it */
+  onInputKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  onPaste?: (e: React.ClipboardEvent<HTMLInputElement>) => void;
+}
+
+// PageUp/PageDown 이동 단위 (max-h-60 드롭다운에 보이는 항목 수)
+const PAGE_SIZE = 5;
+const POPULAR_STALE_TIME = 5 * 60 * 1000;
+// 목록 끝에서 이 거리(px) 안으로 스크롤하면 다음 페이지 로드
+const LOAD_MORE_THRESHOLD = 48;
+
+interface OptionSection {
+  /** Section heading; null for plain search results */
+  label: string | null;
+  options: TagSelection[];
 }
 
 /**
  * Tag autocomplete search input component
  * Features:
  * - 300ms debounced API calls
- * - Displays up to 10 suggestions
+ * - Loads 10 suggestions at a time; more are loaded when scrolling to the end
+ *   or arrowing past the last item, with a result-count hint
  * - Shows usage count for each tag
- * - Keyboard navigation (arrow keys, enter, escape)
+ * - WAI-ARIA 1.2 combobox (listbox popup, aria-activedescendant, live region
+ *   announcing loading state and result counts)
+ * - Korean jamo-aware matching (a syllable still being composed matches) with
+ *   the matched part highlighted
+ * - Keyboard navigation (arrow keys, Home/End, PageUp/PageDown, enter, escape),
+ *   ignored while an IME composition is in progress
+ * - Opens on focus; with an empty input shows "Recent" (stored per member)
+ *   and "Popular" (by usage count) sections
+ * - Tags already in `existingTags` are marked "Already added"
  * - Click outside to close dropdown
+ * - Optional "Create tag" option for new CUSTOM tags (validated and
+ *   normalized, passed to onSelect with `isNew: true`)
  *
  * Usage:
  * <TagAutocomplete
@@ -36,16 +74,132 @@ export default function TagAutocomplete({
   placeholder = 'Enter a tag (e.g., LOL, FPS, Music)',
   tagType,
   className = '',
+  allowCreate = false,
+  existingTags = [],
+  memberUuid,
+  onInputKeyDown,
+  onPaste,
 }: TagAutocompleteProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(-1);
+  const [recentTags, setRecentTags] = useState<TagAutocompleteResult[]>([]);
+  // 마지막 항목에서 아래 화살표로 다음 페이지를 요청했을 때 새 항목으로 이동
+  const [pendingAdvance, setPendingAdvance] = useState(false);
+  // IME 조합 중에는 마지막 음절이 아직 바뀔 수 있으므로 서버 검색어에서 제외
+  const [isComposing, setIsComposing] = useState(false);
   const wrapperRef = useRef<HTMLDivElement>(null);
+  const listboxId = useId();
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
+
+  const { suggestions, isLoading, isLoadingMore, hasMore, pageCount, loadMore } =
+    useTagAutocomplete(value, {
+      tagType,
+      limit: 10,
+      debounceDelay: 300,
+      composing: isComposing,
+    });
+
+  // 새 태그 만들기 옵션 (서버 추천에 같은 이름이 없을 때만)
+  const newTagName = normalizeTagName(value);
+  const canOfferCreate =
+    allowCreate &&
+    tagType !== 'CATEGORY' &&
+    newTagName !== '' &&
+    !suggestions.some((tag) => isSameTagName(tag.name, newTagName));
+  const createError = canOfferCreate ? validateTagName(newTagName, existingTags) : null;
+  const searchOptions: TagSelection[] =
+    canOfferCreate && !createError
+      ? [...suggestions, { name: newTagName, usageCount: 0, isNew: true }]
+      : suggestions;
+
+  // 입력이 비어 있으면 최근/인기 태그 표시
+  const isBrowsing = value.trim() === '';
+  const { data: popularTags } = useApiQuery(
+    queryKeys.popularTags(tagType),
+    () => fetchPopularTags({ tagType }),
+    { enabled: isOpen && isBrowsing, staleTime: POPULAR_STALE_TIME }
+  );
+  const sections: OptionSection[] = isBrowsing
+    ? [
+        { label: 'Recent', options: recentTags },
+        {
+          label: 'Popular',
+          options: (popularTags ?? []).filter(
+            (tag) => !recentTags.some((recent) => isSameTagName(recent.name, tag.name))
+          ),
+        },
+      ].filter((section) => section.options.length > 0)
+    : [{ label: null, options: searchOptions }];
+  const options = sections.flatMap((section) => section.options);
+
+  const isAlreadyAdded = (tag: TagSelection) =>
+    !tag.isNew && existingTags.some((existing) => isSameTagName(existing, tag.name));
 
-  const { suggestions, isLoading } = useTagAutocomplete(value, {
-    tagType,
-    limit: 10,
-    debounceDelay: 300,
-  });
+  // Show dropdown when new results arrive for a search term
+  const [prevSuggestions, setPrevSuggestions] = useState(suggestions);
+  if (suggestions !== prevSuggestions) {
+    setPrevSuggestions(suggestions);
+    if (pageCount > 1) {
+      // 다음 페이지가 이어 붙은 경우: 열림 상태와 선택 위치 유지
+      if (pendingAdvance && suggestions.length > prevSuggestions.length) {
+        setSelectedIndex(prevSuggestions.length);
+      }
+    } else {
+      setIsOpen(suggestions.length > 0 || value.trim() !== '');
+      setSelectedIndex(-1);
+    }
+    setPendingAdvance(false);
+  }
+  const [prevBrowsing, setPrevBrowsing] = useState(isBrowsing);
+  if (isBrowsing !== prevBrowsing) {
+    setPrevBrowsing(isBrowsing);
+    setSelectedIndex(-1);
+  }
+
+  const isListOpen = isOpen && (options.length > 0 || !!createError);
+  // 다음 페이지가 남아 있으면 아직 결과가 없다고 단정하지 않음
+  const showEmptyState =
+    isOpen &&
+    !isLoading &&
+    !isLoadingMore &&
+    !hasMore &&
+    value.trim() !== '' &&
+    options.length === 0 &&
+    !createError;
+  // 건너뛴 페이지에서 일치하는 태그를 못 찾았으면 더 찾아볼지 묻기
+  const showSearchFurther =
+    isOpen &&
+    !isLoading &&
+    hasMore &&
+    value.trim() !== '' &&
+    options.length === 0 &&
+    !createError;
+
+  // 스크린 리더용 상태 안내 (시각적 빈 상태 문구와 별도)
+  let announcement = '';
+  if (isLoading) {
+    announcement = 'Loading suggestions...';
+  } else if (isLoadingMore) {
+    announcement = 'Loading more suggestions...';
+  } else if (showEmptyState) {
+    announcement = 'No matching tags';
+  } else if (showSearchFurther) {
+    announcement = 'No matching tags yet, press down arrow to search further';
+  } else if (isListOpen && isBrowsing) {
+    announcement = `${options.length} recent and popular ${options.length === 1 ? 'tag' : 'tags'}`;
+  } else if (isListOpen) {
+    announcement = `${suggestions.length} ${suggestions.length === 1 ? 'suggestion' : 'suggestions'} available${
+      hasMore ? ', more below' : ''
+    }`;
+  }
+
+  // Keep the highlighted option visible inside the scrollable dropdown
+  useEffect(() => {
+    if (selectedIndex < 0) return;
+    document
+      .getElementById(`${listboxId}-option-${selectedIndex}`)
+      ?.scrollIntoView?.({ block: 'nearest' });
+  }, [listboxId, selectedIndex]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -61,21 +215,22 @@ export default function TagAutocomplete({
     };
   }, []);
 
-  // Show dropdown when suggestions are available
-  useEffect(() => {
-    if (suggestions.length > 0) {
-      setIsOpen(true);
-      setSelectedIndex(-1);
-    } else {
-      setIsOpen(false);
-    }
-  }, [suggestions]);
-
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onChange(e.target.value);
   };
 
-  const handleSelectTag = (tag: TagAutocompleteResult) => {
+  const handleFocus = () => {
+    if (memberUuid && tagType) {
+      setRecentTags(loadRecentTags(memberUuid, tagType));
+    }
+    setIsOpen(true);
+  };
+
+  const handleSelectTag = (tag: TagSelection) => {
+    if (isAlreadyAdded(tag)) return;
+    if (memberUuid && tagType) {
+      addRecentTag(memberUuid, tagType, tag);
+    }
     onChange(tag.name);
     setIsOpen(false);
     if (onSelect) {
@@ -84,23 +239,68 @@ export default function TagAutocomplete({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (!isOpen || suggestions.length === 0) return;
+    // IME 조합 중의 Enter/방향키는 조합 확정용이므로 무시
+    if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+    onInputKeyDown?.(e);
+    if (e.defaultPrevented) return;
+    if (options.length === 0) {
+      // 아직 보여줄 항목이 없어도 다음 페이지가 있으면 불러옴
+      if (e.key === 'ArrowDown' && !isBrowsing && hasMore) {
+        e.preventDefault();
+        setIsOpen(true);
+        loadMore();
+      }
+      return;
+    }
 
+    // 닫혀 있을 때 아래 화살표로 다시 열기
+    if (!isOpen) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setIsOpen(true);
+        setSelectedIndex(0);
+      }
+      return;
+    }
+
+    const lastIndex = options.length - 1;
     switch (e.key) {
       case 'ArrowDown':
         e.preventDefault();
-        setSelectedIndex((prev) =>
-          prev < suggestions.length - 1 ? prev + 1 : prev
-        );
+        if (selectedIndex >= lastIndex && !isBrowsing && hasMore) {
+          setPendingAdvance(true);
+          loadMore();
+        } else {
+          setSelectedIndex((prev) => (prev < lastIndex ? prev + 1 : prev));
+        }
         break;
       case 'ArrowUp':
         e.preventDefault();
         setSelectedIndex((prev) => (prev > 0 ? prev - 1 : -1));
         break;
+      case 'Home':
+        e.preventDefault();
+        setSelectedIndex(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        setSelectedIndex(lastIndex);
+        break;
+      case 'PageDown':
+        e.preventDefault();
+        setSelectedIndex((prev) => Math.min(prev + PAGE_SIZE, lastIndex));
+        break;
+      case 'PageUp':
+        e.preventDefault();
+        setSelectedIndex((prev) => Math.max(prev - PAGE_SIZE, 0));
+        break;
       case 'Enter':
         e.preventDefault();
-        if (selectedIndex >= 0 && selectedIndex < suggestions.length) {
-          handleSelectTag(suggestions[selectedIndex]);
+        if (selectedIndex >= 0 && selectedIndex < options.length) {
+          handleSelectTag(options[selectedIndex]);
+        } else if (options[options.length - 1]?.isNew) {
+          // 선택된 항목이 없으면 Enter로 새 태그 생성
+          handleSelectTag(options[options.length - 1]);
         }
         break;
       case 'Escape':
@@ -110,68 +310,193 @@ export default function TagAutocomplete({
     }
   };
 
-  const formatUsageCount = (count: number | undefined): string => {
-    if (count === undefined || count === null) {
-      return '0';
+  const handleListScroll = (e: React.UIEvent<HTMLUListElement>) => {
+    const list = e.currentTarget;
+    if (
+      !isBrowsing &&
+      hasMore &&
+      list.scrollTop + list.clientHeight >= list.scrollHeight - LOAD_MORE_THRESHOLD
+    ) {
+      loadMore();
     }
+  };
+
+  const renderTagName = (name: string) => {
+    const match = matchTagName(name, value);
+    if (!match) return name;
+
+    const chars = Array.from(name);
+    return (
+      <>
+        {chars.slice(0, match.start).join('')}
+        <mark className="bg-transparent text-inherit font-bold underline underline-offset-2">
+          {chars.slice(match.start, match.end).join('')}
+        </mark>
+        {chars.slice(match.end).join('')}
+      </>
+    );
+  };
+
+  const formatUsageCount = (count: number): string => {
     if (count >= 1000) {
       return `${(count / 1000).toFixed(1)}k`;
     }
     return count.toString();
   };
 
+  const renderOption = (tag: TagSelection, index: number) => {
+    const isSelected = index === selectedIndex;
+    const isAdded = isAlreadyAdded(tag);
+    const detail = isAdded ? 'Already added' : `${formatUsageCount(tag.usageCount)} users`;
+
+    return (
+      <li
+        key={`${tag.isNew ? 'new' : tag.name}-${index}`}
+        id={getOptionId(index)}
+        role="option"
+        aria-selected={isSelected}
+        aria-disabled={isAdded || undefined}
+        // 강조 표시(<mark>)로 나뉜 글자 때문에 접근 가능한 이름이 바뀌지 않도록 고정
+        aria-label={tag.isNew ? undefined : `${tag.name}, ${detail}`}
+        onClick={() => handleSelectTag(tag)}
+        className={`w-full px-4 py-3 text-left flex items-center justify-between transition-colors ${
+          isAdded ? 'cursor-default' : 'cursor-pointer'
+        } ${
+          isSelected
+            ? 'bg-indigo-600 text-white'
+            : `hover:bg-gray-700 ${tag.isNew ? 'text-indigo-300' : 'text-white'}`
+        } ${index !== options.length - 1 ? 'border-b border-gray-700' : ''}`}
+      >
+        {tag.isNew ? (
+          <span>
+            Create tag "<span className="font-medium">{tag.name}</span>"
+          </span>
+        ) : (
+          <>
+            <span className={`font-medium ${isAdded ? 'opacity-60' : ''}`}>
+              {renderTagName(tag.name)}
+            </span>
+            <span className={`text-sm ${isSelected ? 'text-indigo-200' : 'text-gray-400'}`}>
+              {detail}
+            </span>
+          </>
+        )}
+      </li>
+    );
+  };
+
   return (
     <div ref={wrapperRef} className={`relative ${className}`}>
       <div className="relative">
         <input
           type="text"
+          role="combobox"
+          aria-expanded={isListOpen}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={
+            isListOpen && selectedIndex >= 0 ? getOptionId(selectedIndex) : undefined
+          }
           value={value}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
+          onFocus={handleFocus}
+          onCompositionStart={() => setIsComposing(true)}
+          onCompositionEnd={() => setIsComposing(false)}
+          onPaste={onPaste}
           placeholder={placeholder}
           className="w-full px-4 py-2 rounded-lg bg-gray-800 border border-gray-700 focus:border-indigo-500 focus:outline-none text-white placeholder-gray-500"
           autoComplete="off"
         />
         {isLoading && (
-          <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+          <div className="absolute right-3 top-1/2 transform -translate-y-1/2" aria-hidden="true">
             <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-indigo-500"></div>
           </div>
         )}
       </div>
 
       {/* Dropdown */}
-      {isOpen && suggestions.length > 0 && (
-        <div className="absolute z-10 w-full mt-1 bg-gray-800 border border-gray-700 rounded-lg shadow-lg max-h-60 overflow-auto">
-          {suggestions.map((tag, index) => (
-            <button
-              key={`${tag.name}-${index}`}
-              type="button"
-              onClick={() => handleSelectTag(tag)}
-              className={`w-full px-4 py-3 text-left flex items-center justify-between transition-colors ${
-                index === selectedIndex
-                  ? 'bg-indigo-600 text-white'
-                  : 'hover:bg-gray-700 text-white'
-              } ${index !== suggestions.length - 1 ? 'border-b border-gray-700' : ''}`}
+      <ul
+        id={listboxId}
+        role="listbox"
+        hidden={!isListOpen}
+        // 클릭해도 입력창 포커스 유지
+        onMouseDown={(e) => e.preventDefault()}
+        onScroll={handleListScroll}
+        className="absolute z-10 w-full mt-1 bg-gray-800 border border-gray-700 rounded-lg shadow-lg max-h-60 overflow-auto"
+      >
+        {isListOpen &&
+          sections.map((section, sectionIndex) => {
+            const offset = sections
+              .slice(0, sectionIndex)
+              .reduce((count, previous) => count + previous.options.length, 0);
+            const items = section.options.map((tag, i) => renderOption(tag, offset + i));
+            if (!section.label) return items;
+
+            const labelId = `${listboxId}-section-${sectionIndex}`;
+            return (
+              <li key={section.label} role="presentation">
+                <div
+                  id={labelId}
+                  className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500"
+                >
+                  {section.label}
+                </div>
+                <ul role="group" aria-labelledby={labelId}>
+                  {items}
+                </ul>
+              </li>
+            );
+          })}
+        {isListOpen && createError && (
+            <li
+              role="option"
+              aria-disabled="true"
+              aria-selected={false}
+              className="px-4 py-3 text-sm text-gray-400"
             >
-              <span className="font-medium">{tag.name}</span>
-              <span
-                className={`text-sm ${
-                  index === selectedIndex ? 'text-indigo-200' : 'text-gray-400'
-                }`}
-              >
-                {formatUsageCount(tag.usageCount)} users
-              </span>
-            </button>
-          ))}
-        </div>
-      )}
+              Can't create "{newTagName}": {createError}
+            </li>
+          )}
+        {isListOpen && !isBrowsing && suggestions.length > 0 && (
+          <li role="presentation" className="px-4 py-2 text-xs text-gray-500 border-t border-gray-700">
+            {isLoadingMore
+              ? 'Loading more...'
+              : hasMore
+                ? `${suggestions.length}+ matching tags · scroll for more`
+                : `${suggestions.length} matching ${suggestions.length === 1 ? 'tag' : 'tags'}`}
+          </li>
+        )}
+      </ul>
 
       {/* Empty state when searching but no results */}
-      {isOpen && !isLoading && value.trim() && suggestions.length === 0 && (
+      {showEmptyState && (
         <div className="absolute z-10 w-full mt-1 bg-gray-800 border border-gray-700 rounded-lg shadow-lg p-4 text-center text-gray-400">
           No tags found for "{value}"
         </div>
       )}
+
+      {/* No match in the pages searched so far, but more remain */}
+      {showSearchFurther && (
+        <div className="absolute z-10 w-full mt-1 bg-gray-800 border border-gray-700 rounded-lg shadow-lg p-4 text-center text-gray-400">
+          No tags found for "{value}" yet.{' '}
+          <button
+            type="button"
+            // 클릭해도 입력창 포커스 유지
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => loadMore()}
+            disabled={isLoadingMore}
+            className="text-indigo-400 hover:text-indigo-300 disabled:text-gray-500"
+          >
+            {isLoadingMore ? 'Searching...' : 'Search further'}
+          </button>
+        </div>
+      )}
+
+      {/* Screen reader announcements */}
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import type { TagDraft } from '../services/tagDraft';
+import type { Channel } from '../types/tag';
+
+type DraftLists = Omit<TagDraft, 'savedAt'>;
+
+interface TagDraftBannerProps {
+  savedAt: number;
+  /** Lists as saved on the server */
+  server: DraftLists;
+  /** Lists as currently edited */
+  draft: DraftLists;
+  onDiscard: () => void;
+  onDismiss: () => void;
+}
+
+interface CompareItem {
+  key: string;
+  label: string;
+}
+
+const fromTags = (tags: string[]): CompareItem[] => tags.map((tag) => ({ key: tag, label: tag }));
+
+const fromChannels = (channels: Channel[]): CompareItem[] =>
+  channels.map((channel) => ({ key: channel.channelId, label: channel.channelName }));
+
+/**
+ * Notice shown when unsaved tag edits were restored from a local draft
+ * Lets the user discard the draft or compare it with what's on the server.
+ */
+export default function TagDraftBanner({
+  savedAt,
+  server,
+  draft,
+  onDiscard,
+  onDismiss,
+}: TagDraftBannerProps) {
+  const [showCompare, setShowCompare] = useState(false);
+
+  const sections = [
+    { title: 'Tags', server: fromTags(server.customTags), draft: fromTags(draft.customTags) },
+    {
+      title: 'Categories',
+      server: fromTags(server.categoryTags),
+      draft: fromTags(draft.categoryTags),
+    },
+    {
+      title: 'Favorite channels',
+      server: fromChannels(server.favoriteChannels),
+      draft: fromChannels(draft.favoriteChannels),
+    },
+    {
+      title: 'Blocked channels',
+      server: fromChannels(server.blockedChannels),
+      draft: fromChannels(draft.blockedChannels),
+    },
+  ];
+
+  return (
+    <div className="mb-8 p-4 rounded-lg bg-amber-900/30 border border-amber-700">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-amber-200">
+          Restored unsaved changes from {new Date(savedAt).toLocaleString()}. Save to keep them.
+        </p>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-amber-300 hover:text-white leading-none"
+          aria-label="Dismiss"
+        >
+          ×
+        </button>
+      </div>
+      <div className="mt-3 flex gap-3 text-sm">
+        <button
+          type="button"
+          onClick={() => setShowCompare((prev) => !prev)}
+          className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          {showCompare ? 'Hide comparison' : 'Compare with saved'}
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-red-700 transition-colors"
+        >
+          Discard draft
+        </button>
+      </div>
+
+      {showCompare && (
+        <div className="mt-4 space-y-3 text-sm">
+          {sections.map(({ title, server: saved, draft: edited }) => {
+            const has = (list: CompareItem[], item: CompareItem) =>
+              list.some((other) => other.key === item.key);
+            const added = edited.filter((item) => !has(saved, item));
+            const removed = saved.filter((item) => !has(edited, item));
+            return (
+              <div key={title}>
+                <h4 className="font-semibold text-gray-300 mb-1">{title}</h4>
+                {added.length === 0 && removed.length === 0 ? (
+                  <p className="text-gray-500">No differences</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {added.map((item) => (
+                      <span key={`+${item.key}`} className="px-2 py-0.5 rounded-full bg-green-800 text-green-200">
+                        + {item.label}
+                      </span>
+                    ))}
+                    {removed.map((item) => (
+                      <span key={`-${item.key}`} className="px-2 py-0.5 rounded-full bg-red-900 text-red-200 line-through">
+                        − {item.label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import TagAutocomplete from './TagAutocomplete';
+import { isSameTagName, normalizeTagName, validateTagName } from '../services/tagName';
+import { findTag } from '../services/tagService';
+import type { TagSelection, TagType } from '../types/tag';
+
+interface TagInputProps {
+  /** Selected tags (controlled mode) */
+  value?: string[];
+  /** Initial tags (uncontrolled mode) */
+  defaultValue?: string[];
+  onChange?: (tags: string[]) => void;
+  tagType: TagType;
+  /** Maximum number of tags; further additions are rejected */
+  maxCount?: number;
+  placeholder?: string;
+  /** Allow creating tags that don't exist yet (CUSTOM only) */
+  allowCreate?: boolean;
+  emptyMessage?: string;
+  /** Member whose recent tags are suggested when the input is empty */
+  memberUuid?: string;
+  /** Extra content rendered inside a chip, after the tag name (e.g. status, menus) */
+  renderChipAddon?: (tag: string) => ReactNode;
+  className?: string;
+}
+
+interface TagEntry {
+  name: string;
+  /** Typed in by the user and not on the server yet */
+  isNew: boolean;
+}
+
+const CHIP_STYLES: Record<TagType, string> = {
+  CUSTOM: 'bg-indigo-600',
+  CATEGORY: 'bg-green-600',
+};
+
+/**
+ * Multi-value tag input built on TagAutocomplete
+ * Features:
+ * - Selected tags shown as removable chips
+ * - Backspace on an empty input removes the last tag
+ * - Pasting a comma- or newline-separated list adds several tags at once
+ *   (names are looked up on the server; unknown ones are only added as new tags
+ *   when `allowCreate` is set)
+ * - Duplicate prevention and optional max count
+ * - Controlled (`value` + `onChange`) or uncontrolled (`defaultValue`)
+ *
+ * Usage:
+ * <TagInput
+ *   tagType="CUSTOM"
+ *   value={customTags}
+ *   onChange={setCustomTags}
+ *   allowCreate
+ * />
+ */
+export default function TagInput({
+  value,
+  defaultValue = [],
+  onChange,
+  tagType,
+  maxCount,
+  placeholder,
+  allowCreate = false,
+  emptyMessage = 'No tags added yet.',
+  memberUuid,
+  renderChipAddon,
+  className = '',
+}: TagInputProps) {
+  const [internalTags, setInternalTags] = useState<string[]>(defaultValue);
+  const [searchValue, setSearchValue] = useState('');
+  // 붙여넣기/추가 시 건너뛴 태그 안내
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const tags = value ?? internalTags;
+  const isFull = maxCount !== undefined && tags.length >= maxCount;
+
+  const updateTags = (next: string[]) => {
+    if (value === undefined) {
+      setInternalTags(next);
+    }
+    onChange?.(next);
+  };
+
+  /**
+   * Add tags, skipping duplicates, invalid new names and anything past maxCount
+   * @returns Names that were skipped, with the reason
+   */
+  const addTags = (entries: TagEntry[]): string[] => {
+    const next = [...tags];
+    const skipped: string[] = [];
+
+    entries.forEach(({ name: raw, isNew }) => {
+      // 새로 만드는 태그만 정규화 (기존 태그/카테고리 이름은 서버 표기 유지)
+      const name = isNew ? normalizeTagName(raw) : raw.trim();
+      if (!name) return;
+
+      const error = isNew ? validateTagName(name, next) : null;
+      if (next.some((tag) => isSameTagName(tag, name))) {
+        skipped.push(`${name} (already added)`);
+      } else if (maxCount !== undefined && next.length >= maxCount) {
+        skipped.push(`${name} (limit of ${maxCount} reached)`);
+      } else if (error) {
+        skipped.push(`${name} (${error})`);
+      } else {
+        next.push(name);
+      }
+    });
+
+    if (next.length !== tags.length) {
+      updateTags(next);
+    }
+    return skipped;
+  };
+
+  // 붙여넣은 이름을 서버에서 확인하는 동안 태그가 바뀔 수 있으므로 최신 목록 기준으로 추가
+  const addTagsRef = useRef(addTags);
+  useEffect(() => {
+    addTagsRef.current = addTags;
+  });
+
+  const handleSelect = (tag: TagSelection) => {
+    const skipped = addTags([{ name: tag.name, isNew: !!tag.isNew }]);
+    setNotice(skipped.length > 0 ? `Not added: ${skipped.join(', ')}` : null);
+    setSearchValue('');
+  };
+
+  const removeTag = (tagName: string) => {
+    updateTags(tags.filter((tag) => tag !== tagName));
+    setNotice(null);
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Backspace' && searchValue === '' && tags.length > 0) {
+      e.preventDefault();
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  const handlePaste = async (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!/[,\n]/.test(text)) return;
+
+    e.preventDefault();
+    const names = text
+      .split(/[,\r\n]+/)
+      .map((name) => name.trim())
+      .filter(Boolean);
+    const canCreate = tagType === 'CUSTOM' && allowCreate;
+    setNotice('Checking pasted tags...');
+
+    // 서버에 있는 태그는 서버 표기로 추가하고, 없는 이름은 새로 만들 수 있을 때만 추가
+    const rejected: string[] = [];
+    const entries = await Promise.all(
+      names.map(async (name): Promise<TagEntry | null> => {
+        try {
+          const tag = await findTag(name, tagType);
+          if (tag) return { name: tag.name, isNew: false };
+          if (canCreate) return { name, isNew: true };
+          rejected.push(`${name} (${tagType === 'CATEGORY' ? 'no such category' : 'no such tag'})`);
+        } catch (error) {
+          console.error('Failed to look up pasted tag:', error);
+          rejected.push(`${name} (could not be checked)`);
+        }
+        return null;
+      })
+    );
+
+    const skipped = [
+      ...addTagsRef.current(entries.filter((entry): entry is TagEntry => entry !== null)),
+      ...rejected,
+    ];
+    setNotice(skipped.length > 0 ? `Not added: ${skipped.join(', ')}` : null);
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {tags.length === 0 ? (
+          <p className="text-gray-500">{emptyMessage}</p>
+        ) : (
+          tags.map((tag) => (
+            <span
+              key={tag}
+              className={`group relative inline-flex items-center px-3 py-1 rounded-full text-white ${CHIP_STYLES[tagType]}`}
+            >
+              {tag}
+              {renderChipAddon?.(tag)}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="ml-1 w-0 overflow-hidden opacity-0 group-hover:w-4 group-hover:opacity-100 focus:w-4 focus:opacity-100 hover:text-red-300 transition-all duration-200"
+                aria-label={`Remove ${tag}`}
+              >
+                ×
+              </button>
+            </span>
+          ))
+        )}
+      </div>
+
+      <TagAutocomplete
+        value={searchValue}
+        onChange={setSearchValue}
+        onSelect={handleSelect}
+        tagType={tagType}
+        placeholder={isFull ? `Limit of ${maxCount} reached` : placeholder}
+        allowCreate={allowCreate && !isFull}
+        existingTags={tags}
+        memberUuid={memberUuid}
+        onInputKeyDown={handleInputKeyDown}
+        onPaste={handlePaste}
+      />
+
+      {notice && <p className="mt-2 text-sm text-amber-400">{notice}</p>}
+      {maxCount !== undefined && (
+        <p className="mt-1 text-xs text-gray-500">
+          {tags.length} / {maxCount}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import TagAutocomplete from './TagAutocomplete';
+import { useRuleTermCheck } from '../hooks/useRuleTermCheck';
+import type { RuleTermStatus } from '../hooks/useRuleTermCheck';
+import { useServerForm } from '../hooks/useServerForm';
+import { isSameTagName } from '../services/tagName';
+import {
+  MAX_TAG_RULES,
+  collectRuleTerms,
+  combineTagRules,
+  parseTagRule,
+  serializeTagRule,
+  validateRuleName,
+} from '../services/tagRule';
+import type { TagRuleParseResult } from '../services/tagRule';
+import type { TagRule, TagRuleExpression, TagRuleInput, TagRuleTerm } from '../types/rule';
+import type { TagSelection, TagType } from '../types/tag';
+
+interface TagRuleEditorProps {
+  /** Saved rules */
+  value: TagRule[];
+  /** Tags in the member's lists; these count as known even before they are saved */
+  customTags: string[];
+  categoryTags: string[];
+  memberUuid?: string;
+  saving?: boolean;
+  disabled?: boolean;
+  onSave: (rules: TagRuleInput[]) => void;
+}
+
+type RuleDraft = TagRuleInput & { key: string };
+
+type Connector = 'AND' | 'OR' | 'AND NOT' | 'OR NOT';
+
+const CONNECTORS: Connector[] = ['AND', 'OR', 'AND NOT', 'OR NOT'];
+
+const TERM_STYLES: Record<RuleTermStatus, string> = {
+  checking: 'bg-gray-700 text-gray-300',
+  known: 'bg-green-900/60 text-green-300',
+  unknown: 'bg-amber-900/60 text-amber-300',
+  error: 'bg-gray-700 text-gray-400',
+};
+
+// 새 규칙의 React key (서버 id가 생기기 전까지 사용)
+let nextDraftKey = 0;
+
+const toDrafts = (rules: TagRule[]): RuleDraft[] =>
+  rules.map(({ id, name, expression }) => ({ key: id, name, expression }));
+
+const isSameRules = (drafts: RuleDraft[], rules: TagRule[]): boolean =>
+  drafts.length === rules.length &&
+  drafts.every(
+    (draft, i) => draft.name === rules[i].name && draft.expression === rules[i].expression
+  );
+
+const appendCondition = (
+  expression: string,
+  connector: Connector,
+  term: TagRuleTerm
+): string => {
+  const negate = connector.endsWith('NOT');
+  const condition: TagRuleExpression = negate ? { kind: 'NOT', operand: term } : term;
+  const current = parseTagRule(expression);
+  if (!current.ok) {
+    return serializeTagRule(condition);
+  }
+  const kind = connector.startsWith('OR') ? 'OR' : 'AND';
+  return serializeTagRule(combineTagRules(kind, current.expression, condition));
+};
+
+/**
+ * Settings section for named AND/OR/NOT rules; each rule is edited in its
+ * text form, with a builder row that appends conditions picked from
+ * autocomplete
+ */
+export default function TagRuleEditor({
+  value,
+  customTags,
+  categoryTags,
+  memberUuid,
+  saving = false,
+  disabled = false,
+  onSave,
+}: TagRuleEditorProps) {
+  const [drafts, setDrafts] = useServerForm(value, toDrafts, isSameRules);
+
+  const parsed = drafts.map((draft) => parseTagRule(draft.expression));
+
+  // 내 목록에 있는 태그는 조회하지 않고 알려진 태그로 취급
+  const isOwnTag = (term: TagRuleTerm) =>
+    (term.tagType === 'CUSTOM' ? customTags : categoryTags).some((tag) =>
+      isSameTagName(tag, term.name)
+    );
+  const allTerms = parsed.flatMap((result) =>
+    result.ok ? collectRuleTerms(result.expression) : []
+  );
+  const checkTerm = useRuleTermCheck(allTerms.filter((term) => !isOwnTag(term)));
+  const getTermStatus = (term: TagRuleTerm): RuleTermStatus =>
+    isOwnTag(term) ? 'known' : checkTerm(term);
+
+  const nameErrors = drafts.map((draft, i) =>
+    validateRuleName(
+      draft.name.trim(),
+      drafts.filter((_, j) => j !== i).map((other) => other.name.trim())
+    )
+  );
+
+  // 카테고리는 서버에 있는 것만 쓸 수 있음 (커스텀 태그는 새로 만들 수 있으므로 경고만)
+  const hasBlockingIssue =
+    nameErrors.some(Boolean) ||
+    parsed.some(
+      (result) =>
+        !result.ok ||
+        collectRuleTerms(result.expression).some((term) => {
+          const status = getTermStatus(term);
+          return status === 'checking' || (status === 'unknown' && term.tagType === 'CATEGORY');
+        })
+    );
+  const isDirty = !isSameRules(drafts, value);
+
+  const updateDraft = (key: string, patch: Partial<TagRuleInput>) =>
+    setDrafts((current) =>
+      current.map((draft) => (draft.key === key ? { ...draft, ...patch } : draft))
+    );
+
+  const addRule = () =>
+    setDrafts((current) => [
+      ...current,
+      { key: `draft-${nextDraftKey++}`, name: `Rule ${current.length + 1}`, expression: '' },
+    ]);
+
+  const removeRule = (key: string) =>
+    setDrafts((current) => current.filter((draft) => draft.key !== key));
+
+  const handleSave = () =>
+    onSave(
+      drafts.map((draft, i) => {
+        const result = parsed[i];
+        return {
+          name: draft.name.trim(),
+          // 저장은 정규화된 텍스트 형태로
+          expression: result.ok ? serializeTagRule(result.expression) : draft.expression,
+        };
+      })
+    );
+
+  return (
+    <div className="mt-8 p-4 rounded-lg bg-gray-800 border border-gray-700">
+      <div className="flex items-center justify-between gap-3 mb-1">
+        <h3 className="text-lg font-semibold text-white">Rules</h3>
+        <button
+          type="button"
+          onClick={addRule}
+          disabled={disabled || saving || drafts.length >= MAX_TAG_RULES}
+          className="px-3 py-1.5 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add rule
+        </button>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Get alerts only for streams matching a combination, e.g.{' '}
+        <code className="text-gray-300">
+          category = League of Legends AND tag = 랭크 AND NOT tag = 다시보기
+        </code>
+      </p>
+
+      {drafts.length === 0 ? (
+        <p className="text-sm text-gray-500">No rules yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {drafts.map((draft, i) => (
+            <TagRuleRow
+              key={draft.key}
+              draft={draft}
+              result={parsed[i]}
+              nameError={nameErrors[i]}
+              getTermStatus={getTermStatus}
+              memberUuid={memberUuid}
+              disabled={disabled || saving}
+              onChange={(patch) => updateDraft(draft.key, patch)}
+              onRemove={() => removeRule(draft.key)}
+            />
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={disabled || saving || !isDirty || hasBlockingIssue}
+          className="px-4 py-2 rounded-lg text-sm bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save rules'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface TagRuleRowProps {
+  draft: RuleDraft;
+  result: TagRuleParseResult;
+  nameError: string | null;
+  getTermStatus: (term: TagRuleTerm) => RuleTermStatus;
+  memberUuid?: string;
+  disabled: boolean;
+  onChange: (patch: Partial<TagRuleInput>) => void;
+  onRemove: () => void;
+}
+
+function TagRuleRow({
+  draft,
+  result,
+  nameError,
+  getTermStatus,
+  memberUuid,
+  disabled,
+  onChange,
+  onRemove,
+}: TagRuleRowProps) {
+  const [connector, setConnector] = useState<Connector>('AND');
+  const [field, setField] = useState<TagType>('CUSTOM');
+  const [search, setSearch] = useState('');
+
+  const terms = result.ok ? collectRuleTerms(result.expression) : [];
+  const isEmpty = !draft.expression.trim();
+  // 식이 올바를 때만 빌더로 조건을 이어 붙일 수 있음
+  const canBuild = isEmpty || result.ok;
+
+  const handleSelect = (tag: TagSelection) => {
+    onChange({
+      expression: appendCondition(draft.expression, connector, {
+        kind: 'TAG',
+        tagType: field,
+        name: tag.name,
+      }),
+    });
+    setSearch('');
+  };
+
+  const describeTerm = (term: TagRuleTerm, status: RuleTermStatus) => {
+    if (status === 'checking') return 'Checking...';
+    if (status === 'error') return 'Could not check this tag';
+    if (status === 'known') return 'Known tag';
+    return term.tagType === 'CATEGORY'
+      ? 'No such category'
+      : 'No one uses this tag yet';
+  };
+
+  return (
+    <li className="p-3 rounded-lg bg-gray-900 border border-gray-700">
+      <div className="flex items-start gap-2">
+        <div className="flex-1">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => onChange({ name: e.target.value })}
+            disabled={disabled}
+            aria-label="Rule name"
+            aria-invalid={!!nameError}
+            className="w-full px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-white focus:outline-none focus:border-indigo-500"
+          />
+          {nameError && <p className="mt-1 text-xs text-red-400">{nameError}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          className="px-3 py-2 rounded-lg text-sm text-gray-400 hover:text-red-400 transition-colors"
+        >
+          Remove
+        </button>
+      </div>
+
+      <textarea
+        value={draft.expression}
+        onChange={(e) => onChange({ expression: e.target.value })}
+        disabled={disabled}
+        rows={2}
+        spellCheck={false}
+        placeholder="tag = LOL AND NOT category = Just Chatting"
+        aria-label={`Expression for ${draft.name || 'rule'}`}
+        aria-invalid={!isEmpty && !result.ok}
+        className="mt-2 w-full px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-white font-mono text-sm focus:outline-none focus:border-indigo-500"
+      />
+
+      {!result.ok && !isEmpty && (
+        <p className="mt-1 text-xs text-red-400">
+          {result.error} (at character {result.position + 1})
+        </p>
+      )}
+
+      {terms.length > 0 && (
+        <ul className="mt-2 flex flex-wrap gap-1.5" aria-label="Conditions">
+          {terms.map((term) => {
+            const status = getTermStatus(term);
+            return (
+              <li
+                key={`${term.tagType}:${term.name}`}
+                title={describeTerm(term, status)}
+                className={`px-2 py-0.5 rounded text-xs ${
+                  status === 'unknown' && term.tagType === 'CATEGORY'
+                    ? 'bg-red-900/60 text-red-300'
+                    : TERM_STYLES[status]
+                }`}
+              >
+                {term.tagType === 'CATEGORY' ? 'category' : 'tag'}: {term.name}
+                {status !== 'known' && (
+                  <span className="sr-only"> ({describeTerm(term, status)})</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canBuild ? (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+          <select
+            value={connector}
+            onChange={(e) => setConnector(e.target.value as Connector)}
+            disabled={disabled}
+            aria-label="Join with"
+            className="px-2 py-2 rounded-lg bg-gray-800 border border-gray-700 text-white"
+          >
+            {CONNECTORS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <select
+            value={field}
+            onChange={(e) => setField(e.target.value as TagType)}
+            disabled={disabled}
+            aria-label="Condition type"
+            className="px-2 py-2 rounded-lg bg-gray-800 border border-gray-700 text-white"
+          >
+            <option value="CUSTOM">Tag</option>
+            <option value="CATEGORY">Category</option>
+          </select>
+          <TagAutocomplete
+            key={field}
+            value={search}
+            onChange={setSearch}
+            onSelect={handleSelect}
+            tagType={field}
+            allowCreate={field === 'CUSTOM'}
+            memberUuid={memberUuid}
+            placeholder={field === 'CATEGORY' ? 'Add a category condition' : 'Add a tag condition'}
+            className="flex-1 min-w-48"
+          />
+        </div>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500">Fix the rule above to add conditions here.</p>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,110 @@
+import type {
+  ChannelChangeResult,
+  TagChangeOp,
+  TagChangeResult,
+  TagChangeStatus,
+} from '../types/tag';
+
+interface TagSaveReportProps {
+  results: TagChangeResult[];
+  channelResults?: ChannelChangeResult[];
+  /** Set when turning notifications on failed, before any change was sent */
+  notificationError?: string;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<TagChangeStatus, string> = {
+  applied: 'Saved',
+  failed: 'Failed',
+  rolledBack: 'Undone',
+  rollbackFailed: 'Saved (could not undo)',
+  skipped: 'Not saved',
+};
+
+const STATUS_STYLES: Record<TagChangeStatus, string> = {
+  applied: 'text-green-400',
+  failed: 'text-red-400',
+  rolledBack: 'text-gray-400',
+  rollbackFailed: 'text-amber-400',
+  skipped: 'text-gray-500',
+};
+
+const describeChange = (op: TagChangeOp, name: string) => `${op === 'ADD' ? '+' : '−'} ${name}`;
+
+/**
+ * Per-tag (and per-channel) outcome of a save that did not fully succeed
+ */
+export default function TagSaveReport({
+  results,
+  channelResults = [],
+  notificationError,
+  onDismiss,
+}: TagSaveReportProps) {
+  // 되돌리지 못해 서버에 남은 변경
+  const stuck = [
+    ...results
+      .filter((result) => result.status === 'rollbackFailed')
+      .map((result) => describeChange(result.op, result.tagName)),
+    ...channelResults
+      .filter((result) => result.status === 'rollbackFailed')
+      .map((result) => describeChange(result.op, result.channel.channelName)),
+  ];
+
+  const summary = notificationError
+    ? 'Your changes were not saved because notifications could not be turned on.'
+    : stuck.length > 0
+      ? `Your changes were not saved, and some changes could not be undone, so they are still on the server: ${stuck.join(', ')}. Save again to finish.`
+      : 'Your changes were not saved. Changes already saved were undone so nothing is half-saved.';
+
+  return (
+    <div className="mt-4 p-4 rounded-lg bg-gray-800 border border-red-700">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div className="text-sm">
+          <p className="text-red-300">{summary}</p>
+          {notificationError && <p className="mt-1 text-gray-400">{notificationError}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-white leading-none"
+          aria-label="Dismiss"
+        >
+          ×
+        </button>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {results.map((result) => (
+          <li key={`${result.tagType}-${result.op}-${result.tagName}`} className="flex justify-between gap-4">
+            <span>
+              {result.op === 'ADD' ? '+' : '−'} {result.tagName}
+              <span className="ml-2 text-gray-500">
+                {result.tagType === 'CUSTOM' ? 'Tag' : 'Category'}
+              </span>
+            </span>
+            <span className={STATUS_STYLES[result.status]}>
+              {STATUS_LABELS[result.status]}
+              {result.error && ` — ${result.error}`}
+            </span>
+          </li>
+        ))}
+        {channelResults.map((result) => (
+          <li
+            key={`${result.listType}-${result.op}-${result.channel.channelId}`}
+            className="flex justify-between gap-4"
+          >
+            <span>
+              {result.op === 'ADD' ? '+' : '−'} {result.channel.channelName}
+              <span className="ml-2 text-gray-500">
+                {result.listType === 'FAVORITE' ? 'Favorite channel' : 'Blocked channel'}
+              </span>
+            </span>
+            <span className={STATUS_STYLES[result.status]}>
+              {STATUS_LABELS[result.status]}
+              {result.error && ` — ${result.error}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
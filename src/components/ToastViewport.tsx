@@ -0,0 +1,52 @@
+import type { Toast, ToastVariant } from '../types/toast';
+
+interface ToastViewportProps {
+  toasts: Toast[];
+  onDismiss: (id: string) => void;
+}
+
+const VARIANT_STYLES: Record<ToastVariant, string> = {
+  success: 'bg-green-700 border-green-500',
+  error: 'bg-red-800 border-red-500',
+  info: 'bg-gray-800 border-gray-600',
+};
+
+/**
+ * Stack of toast notifications in the bottom-right corner
+ * Rendered once by ToastProvider; use the `useToast` hook to show toasts.
+ */
+export default function ToastViewport({ toasts, onDismiss }: ToastViewportProps) {
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-full max-w-sm px-4 sm:px-0">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role={toast.variant === 'error' ? 'alert' : 'status'}
+          className={`flex items-start gap-3 p-4 rounded-lg border shadow-lg text-white ${VARIANT_STYLES[toast.variant]}`}
+        >
+          <p className="flex-1 text-sm">{toast.message}</p>
+          {toast.action && (
+            <button
+              type="button"
+              onClick={() => {
+                toast.action?.onClick();
+                onDismiss(toast.id);
+              }}
+              className="text-sm font-semibold underline hover:no-underline"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onDismiss(toast.id)}
+            className="text-gray-300 hover:text-white leading-none"
+            aria-label="Dismiss notification"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
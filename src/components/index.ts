@@ -1,2 +1,4 @@
 export { default as TagAutocomplete } from './TagAutocomplete';
-export { default as TagAutocompleteExample } from './TagAutocompleteExample';
\ No newline at end of file
+export { default as TagAutocompleteExample } from './TagAutocompleteExample';
+export { default as RequireAuth } from './RequireAuth';
+export { default as TagInput } from './TagInput';
\ No newline at end of file
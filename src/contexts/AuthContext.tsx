@@ -1,7 +1,23 @@
 import { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
 import type { User, AuthContextType } from '../types/auth';
-import api from '../services/api';
+import { useToast } from '../hooks/useToast';
+import { fetchMe, logoutFromServer } from '../services/apiClient';
+import { broadcastAuthEvent, onAuthEvent } from '../services/authChannel';
+import { buildLoginPath, createOAuthState, saveReturnTo } from '../services/oauthState';
+import { clearQueryCache, fetchQuery, getQueryState, subscribeQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import {
+  clearTokens,
+  getAccessToken,
+  getRefreshToken,
+  getSessionExpiry,
+  onSessionExpired,
+  onTokensChanged,
+  scheduleTokenRenewal,
+  stopTokenRenewal,
+} from '../services/tokenManager';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -15,34 +31,99 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [sessionEndedElsewhere, setSessionEndedElsewhere] = useState(false);
+  const navigate = useNavigate();
+  const { showToast } = useToast();
 
   useEffect(() => {
     checkAuthStatus();
+    return () => stopTokenRenewal();
+  }, []);
+
+  // 토큰 갱신 시 세션 만료 시각 업데이트
+  useEffect(() => {
+    return onTokensChanged(() => setSessionExpiresAt(getSessionExpiry()));
+  }, []);
+
+  // 다른 화면에서 내 정보가 갱신되면 (알림 설정 변경 등) user도 업데이트
+  useEffect(() => {
+    return subscribeQuery(queryKeys.me, () => {
+      const { data } = getQueryState<User>(queryKeys.me);
+      if (data) {
+        setUser(data);
+      }
+    });
+  }, []);
+
+  // 리프레시 토큰 만료 또는 갱신 실패 시 로그아웃 처리
+  useEffect(() => {
+    return onSessionExpired(() => {
+      clearQueryCache();
+      setUser(null);
+      setSessionExpiresAt(null);
+      showToast({
+        id: 'session-expired',
+        variant: 'info',
+        message: 'Your session has expired. Please log in again.',
+      });
+      navigate(buildLoginPath(`${window.location.pathname}${window.location.search}`), {
+        replace: true,
+      });
+    });
+  }, [navigate, showToast]);
+
+  // 다른 탭의 로그인/로그아웃/토큰 갱신 동기화
+  useEffect(() => {
+    return onAuthEvent((event) => {
+      switch (event.type) {
+        case 'login':
+          setSessionEndedElsewhere(false);
+          checkAuthStatus();
+          break;
+        case 'logout':
+          // 페이지 이동은 각 페이지가 결정 (저장되지 않은 변경사항 보호)
+          stopTokenRenewal();
+          clearQueryCache();
+          setUser(null);
+          setSessionExpiresAt(null);
+          setSessionEndedElsewhere(true);
+          break;
+        case 'tokens':
+          scheduleTokenRenewal();
+          setSessionExpiresAt(getSessionExpiry());
+          break;
+      }
+    });
   }, []);
 
   const checkAuthStatus = async () => {
-    const token = localStorage.getItem('accessToken');
+    const token = getAccessToken();
     if (!token) {
       setIsLoading(false);
       return;
     }
 
     try {
-      const response = await api.get('/api/v1/members/me');
-      setUser(response.data.data);
+      // 다른 탭 로그인 등으로 사용자가 바뀌었을 수 있으므로 항상 재검증 (진행 중 요청은 공유)
+      setUser(await fetchQuery(queryKeys.me, fetchMe, { staleTime: 0 }));
+      setSessionExpiresAt(getSessionExpiry());
+      setSessionEndedElsewhere(false);
+      scheduleTokenRenewal();
     } catch {
-      localStorage.removeItem('accessToken');
-      localStorage.removeItem('refreshToken');
+      clearTokens();
     } finally {
       setIsLoading(false);
     }
   };
 
-  const login = () => {
+  const login = (returnTo = '/') => {
     // Discord OAuth 로그인만 (봇 초대 없이)
+    saveReturnTo(returnTo);
     const scope = 'identify+email';
+    const state = createOAuthState('login');
 
-    const authUrl = `https://discord.com/api/oauth2/authorize?client_id=${DISCORD_CLIENT_ID}&redirect_uri=${encodeURIComponent(REDIRECT_URI)}&response_type=code&scope=${scope}`;
+    const authUrl = `https://discord.com/api/oauth2/authorize?client_id=${DISCORD_CLIENT_ID}&redirect_uri=${encodeURIComponent(REDIRECT_URI)}&response_type=code&scope=${scope}&state=${state}`;
 
     window.location.href = authUrl;
   };
@@ -51,16 +132,28 @@ export function AuthProvider({ children }: AuthProviderProps) {
     // Discord 봇 초대 (로그인 없이 봇만 추가)
     const scope = 'bot';
     const permissions = '2147600448'; // Send Messages + Embed Links + Use Slash Commands + more
+    // 새 탭은 열릴 때 현재 탭의 sessionStorage를 복사하므로 먼저 저장
+    const state = createOAuthState('bot');
 
-    const authUrl = `https://discord.com/api/oauth2/authorize?client_id=${DISCORD_CLIENT_ID}&permissions=${permissions}&scope=${scope}`;
+    const authUrl = `https://discord.com/api/oauth2/authorize?client_id=${DISCORD_CLIENT_ID}&permissions=${permissions}&scope=${scope}&state=${state}`;
 
     window.open(authUrl, '_blank');
   };
 
-  const logout = () => {
-    localStorage.removeItem('accessToken');
-    localStorage.removeItem('refreshToken');
+  const logout = async () => {
+    // 서버의 리프레시 토큰 무효화 (실패해도 로컬 로그아웃은 진행)
+    try {
+      await logoutFromServer(getRefreshToken());
+    } catch (error) {
+      console.error('Server logout failed:', error);
+    }
+
+    stopTokenRenewal();
+    clearTokens();
+    clearQueryCache();
+    broadcastAuthEvent({ type: 'logout' });
     setUser(null);
+    setSessionExpiresAt(null);
     window.location.href = '/';
   };
 
@@ -68,16 +161,23 @@ export function AuthProvider({ children }: AuthProviderProps) {
     await checkAuthStatus();
   };
 
+  const acknowledgeSessionEnd = () => {
+    setSessionEndedElsewhere(false);
+  };
+
   return (
     <AuthContext.Provider
       value={{
         user,
         isAuthenticated: !!user,
         isLoading,
+        sessionExpiresAt,
+        sessionEndedElsewhere,
         login,
         addBot,
         logout,
         refreshAuth,
+        acknowledgeSessionEnd,
       }}
     >
       {children}
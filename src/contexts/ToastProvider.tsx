@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import ToastViewport from '../components/ToastViewport';
+import { ToastContext } from './toastContext';
+import type { Toast, ToastOptions } from '../types/toast';
+
+const DEFAULT_DURATION = 4000;
+// 액션 버튼이 있는 토스트는 누를 시간을 더 준다
+const ACTION_DURATION = 8000;
+
+interface ToastProviderProps {
+  children: ReactNode;
+}
+
+export function ToastProvider({ children }: ToastProviderProps) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const nextId = useRef(0);
+
+  const dismissToast = useCallback((id: string) => {
+    const timer = timers.current.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      timers.current.delete(id);
+    }
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback(
+    ({ variant = 'info', message, action, duration, id }: ToastOptions) => {
+      const toastId = id ?? `toast-${nextId.current++}`;
+      const toast: Toast = {
+        id: toastId,
+        variant,
+        message,
+        action,
+        duration: duration ?? (action ? ACTION_DURATION : DEFAULT_DURATION),
+      };
+
+      setToasts((prev) =>
+        prev.some((t) => t.id === toastId)
+          ? prev.map((t) => (t.id === toastId ? toast : t))
+          : [...prev, toast]
+      );
+
+      const existing = timers.current.get(toastId);
+      if (existing) {
+        clearTimeout(existing);
+        timers.current.delete(toastId);
+      }
+      if (toast.duration > 0) {
+        timers.current.set(
+          toastId,
+          setTimeout(() => dismissToast(toastId), toast.duration)
+        );
+      }
+      return toastId;
+    },
+    [dismissToast]
+  );
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => {
+      pending.forEach((timer) => clearTimeout(timer));
+      pending.clear();
+    };
+  }, []);
+
+  const value = useMemo(
+    () => ({ toasts, showToast, dismissToast }),
+    [toasts, showToast, dismissToast]
+  );
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <ToastViewport toasts={toasts} onDismiss={dismissToast} />
+    </ToastContext.Provider>
+  );
+}
@@ -0,0 +1,9 @@
+import { createContext } from 'react';
+import type { ToastContextType } from '../types/toast';
+
+// Provider 밖에서 (예: 컴포넌트 단위 테스트) 사용해도 동작하도록 no-op 기본값
+export const ToastContext = createContext<ToastContextType>({
+  toasts: [],
+  showToast: () => '',
+  dismissToast: () => {},
+});
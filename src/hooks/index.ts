@@ -1,2 +1,11 @@
 export { useDebounce } from './useDebounce';
-export { useTagAutocomplete } from './useTagAutocomplete';
\ No newline at end of file
+export { useDebouncedSearch } from './useDebouncedSearch';
+export { useTagAutocomplete } from './useTagAutocomplete';
+export { useApiQuery } from './useApiQuery';
+export { useApiMutation } from './useApiMutation';
+export { useToast } from './useToast';
+export { useUnsavedChangesGuard } from './useUnsavedChangesGuard';
+export { useUndoableState } from './useUndoableState';
+export { useServerForm } from './useServerForm';
+export { useRuleTermCheck } from './useRuleTermCheck';
+export { useChannelSearch } from './useChannelSearch';
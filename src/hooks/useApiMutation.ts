@@ -0,0 +1,53 @@
+import { useCallback, useLayoutEffect, useRef, useState } from 'react';
+import { invalidateQueries } from '../services/queryCache';
+import type { QueryKey } from '../services/queryCache';
+
+interface UseApiMutationOptions<TData, TVariables> {
+  /** Called after a successful mutation, e.g. to `setQueryData` */
+  onSuccess?: (data: TData, variables: TVariables) => void;
+  /** Key prefixes to invalidate (and refetch) after a successful mutation */
+  invalidates?: QueryKey[];
+}
+
+/**
+ * Custom hook for API writes that keep the query cache up to date
+ * @param mutationFn - Function that performs the write
+ * @param options - onSuccess, invalidates
+ * @returns mutate function plus pending/error state
+ *
+ * Usage:
+ * const { mutate: toggle, isPending } = useApiMutation(updateNotification, {
+ *   onSuccess: (enabled) => setQueryData(queryKeys.me, (me) => ...),
+ * });
+ */
+export function useApiMutation<TData, TVariables = void>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  options: UseApiMutationOptions<TData, TVariables> = {}
+) {
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<unknown>(undefined);
+
+  const latest = useRef({ mutationFn, options });
+  useLayoutEffect(() => {
+    latest.current = { mutationFn, options };
+  });
+
+  const mutate = useCallback(async (variables: TVariables): Promise<TData> => {
+    const { mutationFn: run, options: current } = latest.current;
+    setIsPending(true);
+    setError(undefined);
+    try {
+      const data = await run(variables);
+      current.onSuccess?.(data, variables);
+      current.invalidates?.forEach((prefix) => invalidateQueries(prefix));
+      return data;
+    } catch (err) {
+      setError(err);
+      throw err;
+    } finally {
+      setIsPending(false);
+    }
+  }, []);
+
+  return { mutate, isPending, error };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+} from '../services/queryCache';
+import type { QueryKey } from '../services/queryCache';
+
+interface UseApiQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+/**
+ * Custom hook for cached API reads (stale-while-revalidate)
+ * @param key - Cache key; every component using the same key shares the data
+ * @param fetcher - Function that loads the data (e.g. an apiClient function)
+ * @param options - enabled (default true), staleTime (default 30s)
+ * @returns Cached data plus loading/error state
+ *
+ * Cached data is shown immediately and revalidated in the background when it
+ * is stale, on mount and when the window regains focus.
+ *
+ * Usage:
+ * const { data: me, isLoading } = useApiQuery(queryKeys.me, fetchMe);
+ */
+export function useApiQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: UseApiQueryOptions = {}
+) {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME } = options;
+  // 렌더마다 새로 만들어지는 key 배열을 내용 기준으로 고정
+  const hash = JSON.stringify(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  const fetcherRef = useRef(fetcher);
+  useLayoutEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQuery(stableKey, listener),
+    [stableKey]
+  );
+  const getSnapshot = useCallback(() => getQueryState<T>(stableKey), [stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  const revalidate = useCallback(
+    (force = false) =>
+      fetchQuery(stableKey, () => fetcherRef.current(), {
+        staleTime: force ? 0 : staleTime,
+      }),
+    [stableKey, staleTime]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    revalidate().catch(() => {
+      // 에러는 쿼리 상태로 전달됨
+    });
+
+    const handleFocus = () => {
+      revalidate().catch(() => {});
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+    };
+  }, [enabled, revalidate]);
+
+  const refetch = useCallback(() => revalidate(true), [revalidate]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: state.data === undefined && state.error === undefined,
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
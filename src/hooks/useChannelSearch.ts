@@ -0,0 +1,38 @@
+import { useCallback } from 'react';
+import { useDebouncedSearch } from './useDebouncedSearch';
+import { searchChannels } from '../services/apiClient';
+import type { ChannelSearchResult } from '../types/tag';
+
+interface UseChannelSearchOptions {
+  limit?: number;
+  debounceDelay?: number;
+}
+
+const NO_CHANNELS: ChannelSearchResult[] = [];
+
+/**
+ * Custom hook for searching channels by name with debouncing
+ * (see `useDebouncedSearch` for cancellation and error handling)
+ * @param searchTerm - Current search input
+ * @param options - Search options (limit, debounceDelay)
+ * @returns Search state and results
+ *
+ * Usage:
+ * const { results, isLoading } = useChannelSearch(searchTerm, { limit: 10 });
+ */
+export function useChannelSearch(searchTerm: string, options: UseChannelSearchOptions = {}) {
+  const { limit = 10, debounceDelay = 300 } = options;
+
+  const search = useCallback(
+    (term: string, signal: AbortSignal) => searchChannels({ keyword: term.trim(), limit }, signal),
+    [limit]
+  );
+  const { data: results, isLoading, error } = useDebouncedSearch(searchTerm, search, {
+    emptyData: NO_CHANNELS,
+    toastId: 'channel-search',
+    errorMessage: 'Failed to search channels',
+    debounceDelay,
+  });
+
+  return { results, isLoading, error };
+}
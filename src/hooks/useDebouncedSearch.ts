@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useDebounce } from './useDebounce';
+import { useToast } from './useToast';
+import { getErrorMessage } from '../services/apiClient';
+
+interface UseDebouncedSearchOptions<T> {
+  /** Result for an empty term, and after a failed search */
+  emptyData: T;
+  /** Toast id and fallback message used when a search fails */
+  toastId: string;
+  errorMessage: string;
+  debounceDelay?: number;
+}
+
+/**
+ * Custom hook that runs a search for a debounced term
+ * A new term cancels the search still in flight (through its AbortSignal), and
+ * late results for older terms are ignored. A failed search shows an error
+ * toast with Retry. `search` may return its result synchronously (e.g. from a
+ * cache); it must be stable (wrap it in useCallback) since a new function
+ * starts a new search.
+ * @param searchTerm - Current search input
+ * @param search - Runs the search for a non-empty term
+ * @param options - Empty result, error toast and debounceDelay (default: 300ms)
+ * @returns Latest result and request state
+ *
+ * Usage:
+ * const search = useCallback((term, signal) => searchChannels({ keyword: term }, signal), []);
+ * const { data, isLoading } = useDebouncedSearch(searchTerm, search, {
+ *   emptyData: NO_CHANNELS,
+ *   toastId: 'channel-search',
+ *   errorMessage: 'Failed to search channels',
+ * });
+ */
+export function useDebouncedSearch<T>(
+  searchTerm: string,
+  search: (term: string, signal: AbortSignal) => T | Promise<T>,
+  options: UseDebouncedSearchOptions<T>
+) {
+  const { emptyData, toastId, errorMessage, debounceDelay = 300 } = options;
+
+  const [data, setData] = useState<T>(emptyData);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  const debouncedSearchTerm = useDebounce(searchTerm, debounceDelay);
+  // 가장 최근 요청만 결과를 반영하기 위한 요청 번호와 취소용 컨트롤러
+  const requestIdRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const runSearch = useCallback(async () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    const requestId = ++requestIdRef.current;
+
+    if (!debouncedSearchTerm.trim()) {
+      setData(emptyData);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+
+    try {
+      const pending = search(debouncedSearchTerm, controller.signal);
+      // 캐시 등으로 바로 나온 결과는 로딩 표시 없이 반영
+      if (!(pending instanceof Promise)) {
+        setData(pending);
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const result = await pending;
+      // 늦게 도착한 이전 검색어의 응답은 무시
+      if (requestId !== requestIdRef.current) return;
+      setData(result);
+    } catch (err) {
+      if (requestId !== requestIdRef.current || controller.signal.aborted) return;
+      console.error(`${errorMessage}:`, err);
+      setError(err instanceof Error ? err.message : errorMessage);
+      setData(emptyData);
+      showToast({
+        id: toastId,
+        variant: 'error',
+        message: getErrorMessage(err, errorMessage),
+        action: { label: 'Retry', onClick: () => runSearch() },
+      });
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [debouncedSearchTerm, search, emptyData, toastId, errorMessage, showToast]);
+
+  useEffect(() => {
+    runSearch();
+  }, [runSearch]);
+
+  // 언마운트 시 진행 중인 요청 취소
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  return { data, isLoading, error };
+}
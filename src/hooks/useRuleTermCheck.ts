@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useDebounce } from './useDebounce';
+import { normalizeTagName } from '../services/tagName';
+import { tagExists } from '../services/tagService';
+import type { TagRuleTerm } from '../types/rule';
+
+/**
+ * - checking: lookup not finished yet
+ * - known: a tag with this name exists
+ * - unknown: no tag with this name exists
+ * - error: the lookup failed
+ */
+export type RuleTermStatus = 'checking' | 'known' | 'unknown' | 'error';
+
+const termKey = (term: TagRuleTerm) => `${term.tagType}:${normalizeTagName(term.name)}`;
+
+/**
+ * Custom hook that checks rule conditions against the tags known to the server
+ * Each tag is looked up once (debounced) and the result is kept for the
+ * lifetime of the component.
+ * @param terms - Conditions to check
+ * @param debounceDelay - Delay before looking up new terms (default: 300ms)
+ * @returns Function giving the status of a term
+ *
+ * Usage:
+ * const getTermStatus = useRuleTermCheck(collectRuleTerms(expression));
+ * if (getTermStatus(term) === 'unknown') { ... }
+ */
+export function useRuleTermCheck(terms: TagRuleTerm[], debounceDelay: number = 300) {
+  const [results, setResults] = useState<Record<string, RuleTermStatus>>({});
+
+  // 배열은 렌더마다 새로 만들어지므로 조회할 조건을 문자열로 디바운스
+  const pending = JSON.stringify(
+    terms
+      .filter((term) => !(termKey(term) in results))
+      .map(({ kind, tagType, name }) => ({ kind, tagType, name }))
+  );
+  const debouncedPending = useDebounce(pending, debounceDelay);
+
+  useEffect(() => {
+    const lookups: TagRuleTerm[] = JSON.parse(debouncedPending);
+    if (lookups.length === 0) return;
+
+    const controller = new AbortController();
+    Promise.all(
+      lookups.map(async (term): Promise<[string, RuleTermStatus]> => {
+        try {
+          const exists = await tagExists(term.name, term.tagType, controller.signal);
+          return [termKey(term), exists ? 'known' : 'unknown'];
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            console.error('Failed to check rule tag:', term, error);
+          }
+          return [termKey(term), 'error'];
+        }
+      })
+    ).then((entries) => {
+      if (controller.signal.aborted) return;
+      setResults((previous) => ({ ...previous, ...Object.fromEntries(entries) }));
+    });
+
+    return () => controller.abort();
+  }, [debouncedPending]);
+
+  return useCallback(
+    (term: TagRuleTerm): RuleTermStatus => results[termKey(term)] ?? 'checking',
+    [results]
+  );
+}
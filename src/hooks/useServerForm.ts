@@ -0,0 +1,33 @@
+import { useState } from 'react';
+
+/**
+ * Custom hook for form state that starts from a saved server value
+ * When a new server value arrives (after a save or a revalidation), the form
+ * follows it unless it holds unsaved edits: a refetch with a new object
+ * identity keeps what the user is typing.
+ * @param value - Saved server value
+ * @param toForm - Builds the form state from the server value
+ * @param isSaved - Whether the form matches a server value (no unsaved edits)
+ * @returns Form state and its setter, like useState
+ *
+ * Usage:
+ * const [form, setForm] = useServerForm(value, toForm, isSavedForm);
+ */
+export function useServerForm<V, F>(
+  value: V,
+  toForm: (value: V) => F,
+  isSaved: (form: F, value: V) => boolean
+) {
+  const [form, setForm] = useState<F>(() => toForm(value));
+
+  // 렌더 중에 맞춰 effect 없이 바로 반영 (편집 중인 폼은 유지)
+  const [prevValue, setPrevValue] = useState(value);
+  if (value !== prevValue) {
+    setPrevValue(value);
+    if (isSaved(form, prevValue) || isSaved(form, value)) {
+      setForm(toForm(value));
+    }
+  }
+
+  return [form, setForm] as const;
+}
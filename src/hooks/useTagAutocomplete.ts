@@ -1,22 +1,111 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useDebouncedSearch } from './useDebouncedSearch';
+import { useToast } from './useToast';
+import { getErrorMessage } from '../services/apiClient';
 import { fetchTagAutocomplete } from '../services/tagService';
-import type { TagAutocompleteResult, TagType } from '../types/tag';
-import { useDebounce } from './useDebounce';
+import { getCachedSuggestions, setCachedSuggestions } from '../services/tagSuggestionCache';
+import { matchTagName, toServerQuery } from '../services/tagSearch';
+import type { TagAutocompleteParams, TagAutocompleteResult, TagType } from '../types/tag';
 
 interface UseTagAutocompleteOptions {
   tagType?: TagType;
   limit?: number;
   debounceDelay?: number;
+  /** An IME composition is in progress (the last syllable may still change) */
+  composing?: boolean;
 }
 
+// 조합 중 검색은 넓은 prefix로 받아 클라이언트에서 거르므로 후보를 더 많이 요청
+const CANDIDATE_LIMIT = 50;
+// 일치하는 태그가 없는 페이지를 한 번에 건너뛰는 최대 횟수 (이후는 loadMore로 이어서 조회)
+const MAX_SKIPPED_PAGES = 3;
+
+/** One search: the query sent to the server and how its pages are filtered */
+interface PageCursor {
+  params: TagAutocompleteParams;
+  /** Search term the pages belong to (used for client-side filtering) */
+  term: string;
+  exact: boolean;
+}
+
+/** Suggestions loaded so far for one search */
+interface ResultPages {
+  suggestions: TagAutocompleteResult[];
+  hasMore: boolean;
+  /** Number of pages loaded (0 for an empty search) */
+  pageCount: number;
+  cursor: PageCursor | null;
+  /** Offset of the next page to load */
+  nextOffset: number;
+}
+
+/** A fetched page and the offset right after it */
+interface FetchedPage {
+  page: TagAutocompleteResult[];
+  nextOffset: number;
+}
+
+const NO_RESULTS: ResultPages = {
+  suggestions: [],
+  hasMore: false,
+  pageCount: 0,
+  cursor: null,
+  nextOffset: 0,
+};
+
+const toSuggestions = (results: TagAutocompleteResult[], cursor: PageCursor) =>
+  cursor.exact ? results : results.filter((tag) => matchTagName(tag.name, cursor.term));
+
+// 꽉 찬 페이지가 클라이언트 필터에 모두 걸러졌다면 뒤에 일치하는 태그가 있을 수 있음
+const needsNextPage = (results: TagAutocompleteResult[], cursor: PageCursor) =>
+  results.length === cursor.params.limit && toSuggestions(results, cursor).length === 0;
+
+/**
+ * Fetch further pages until one has a match for the term, the results run out
+ * or `MAX_SKIPPED_PAGES` pages were skipped, so a page filtered down to nothing
+ * doesn't read as "no tags found"
+ * @param results - Page starting at `offset`
+ * @returns The first page with a match (or the last page fetched) and the
+ * offset after it
+ */
+const skipUnmatchedPages = async (
+  results: TagAutocompleteResult[],
+  offset: number,
+  cursor: PageCursor,
+  signal: AbortSignal
+): Promise<FetchedPage> => {
+  let page = results;
+  let start = offset;
+  for (let skipped = 0; skipped < MAX_SKIPPED_PAGES && needsNextPage(page, cursor); skipped++) {
+    start += page.length;
+    page = (await fetchTagAutocomplete({ ...cursor.params, offset: start }, signal)) || [];
+  }
+  return { page, nextOffset: start + page.length };
+};
+
+// 페이지가 경계에서 밀려 같은 태그가 두 번 오는 경우 제거
+const appendUnique = (
+  current: TagAutocompleteResult[],
+  more: TagAutocompleteResult[]
+): TagAutocompleteResult[] => [
+  ...current,
+  ...more.filter((tag) => !current.some((existing) => existing.name === tag.name)),
+];
+
 /**
  * Custom hook for tag autocomplete with debouncing
+ * Requests are cancelled and ordered as in `useDebouncedSearch`. Results are
+ * cached (LRU) so repeated or narrowing searches are answered without a
+ * request. Korean searches with a syllable still being composed are sent as a
+ * shorter prefix and filtered with `matchTagName`; a few pages with no match
+ * are skipped. Further pages are loaded with `loadMore` (offset pagination; the
+ * first page is the one that is cached).
  * @param searchTerm - Current search input
- * @param options - Autocomplete options (tagType, limit, debounceDelay)
+ * @param options - Autocomplete options (tagType, limit, debounceDelay, composing)
  * @returns Autocomplete state and results
  *
  * Usage:
- * const { suggestions, isLoading, error } = useTagAutocomplete(searchTerm, {
+ * const { suggestions, isLoading, hasMore, loadMore } = useTagAutocomplete(searchTerm, {
  *   tagType: TagType.CATEGORY,
  *   limit: 10,
  *   debounceDelay: 300
@@ -29,47 +118,119 @@ export function useTagAutocomplete(
   const {
     tagType,
     limit = 10,
-    debounceDelay = 300
+    debounceDelay = 300,
+    composing = false
   } = options;
 
-  const [suggestions, setSuggestions] = useState<TagAutocompleteResult[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { showToast } = useToast();
 
-  const debouncedSearchTerm = useDebounce(searchTerm, debounceDelay);
+  const searchFirstPage = useCallback(
+    (term: string, signal: AbortSignal): ResultPages | Promise<ResultPages> => {
+      const { prefix, exact } = toServerQuery(term, composing);
+      const params = { prefix, tagType, limit: exact ? limit : Math.max(limit, CANDIDATE_LIMIT) };
+      const cursor: PageCursor = { params, term, exact };
+      const toFirstPage = ({ page, nextOffset }: FetchedPage): ResultPages => ({
+        suggestions: toSuggestions(page, cursor),
+        hasMore: page.length === params.limit,
+        pageCount: 1,
+        cursor,
+        nextOffset,
+      });
 
-  const fetchSuggestions = useCallback(async () => {
-    if (!debouncedSearchTerm.trim()) {
-      setSuggestions([]);
-      return;
-    }
+      const cached = getCachedSuggestions(params);
+      if (cached && !needsNextPage(cached, cursor)) {
+        return toFirstPage({ page: cached, nextOffset: cached.length });
+      }
+
+      return (async () => {
+        let results = cached;
+        if (!results) {
+          results = (await fetchTagAutocomplete(params, signal)) || [];
+          setCachedSuggestions(params, results);
+        }
+        return toFirstPage(await skipUnmatchedPages(results, 0, cursor, signal));
+      })();
+    },
+    [composing, tagType, limit]
+  );
+
+  const {
+    data: firstPage,
+    isLoading,
+    error,
+  } = useDebouncedSearch(searchTerm, searchFirstPage, {
+    emptyData: NO_RESULTS,
+    toastId: 'tag-suggestions',
+    errorMessage: 'Failed to load tag suggestions',
+    debounceDelay,
+  });
+
+  // loadMore로 이어 붙인 결과 (다른 검색의 결과면 무시)
+  const [morePages, setMorePages] = useState<ResultPages | null>(null);
+  const [loadingMoreFor, setLoadingMoreFor] = useState<PageCursor | null>(null);
+  const moreControllerRef = useRef<AbortController | null>(null);
+  const { cursor } = firstPage;
+  const pages = cursor && morePages?.cursor === cursor ? morePages : firstPage;
+  const isLoadingMore = !!cursor && loadingMoreFor === cursor;
 
-    setIsLoading(true);
-    setError(null);
+  /**
+   * Load the next page for the current search and append it to `suggestions`
+   */
+  const loadMore = useCallback(async () => {
+    if (!cursor || !pages.hasMore || isLoading || isLoadingMore) return;
+
+    const controller = new AbortController();
+    moreControllerRef.current = controller;
+    setLoadingMoreFor(cursor);
 
     try {
-      const results = await fetchTagAutocomplete({
-        prefix: debouncedSearchTerm,
-        tagType,
-        limit,
+      const results = await fetchTagAutocomplete(
+        { ...cursor.params, offset: pages.nextOffset },
+        controller.signal
+      );
+      // 요청이 성공한 뒤에만 다음 offset을 반영 (실패 후 재시도가 페이지를 건너뛰지 않도록)
+      const { page, nextOffset } = await skipUnmatchedPages(
+        results || [],
+        pages.nextOffset,
+        cursor,
+        controller.signal
+      );
+      setMorePages({
+        suggestions: appendUnique(pages.suggestions, toSuggestions(page, cursor)),
+        hasMore: page.length === cursor.params.limit,
+        pageCount: pages.pageCount + 1,
+        cursor,
+        nextOffset,
       });
-      setSuggestions(results || []);
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error('Autocomplete fetch error:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch suggestions');
-      setSuggestions([]);
+      showToast({
+        id: 'tag-suggestions',
+        variant: 'error',
+        message: getErrorMessage(err, 'Failed to load more tag suggestions'),
+        action: { label: 'Retry', onClick: () => loadMore() },
+      });
     } finally {
-      setIsLoading(false);
+      if (moreControllerRef.current === controller) {
+        moreControllerRef.current = null;
+        setLoadingMoreFor(null);
+      }
     }
-  }, [debouncedSearchTerm, tagType, limit]);
+  }, [cursor, pages, isLoading, isLoadingMore, showToast]);
 
+  // 검색어가 바뀌거나 언마운트되면 진행 중인 다음 페이지 요청 취소
   useEffect(() => {
-    fetchSuggestions();
-  }, [fetchSuggestions]);
+    return () => moreControllerRef.current?.abort();
+  }, [cursor]);
 
   return {
-    suggestions,
+    suggestions: pages.suggestions,
     isLoading,
+    isLoadingMore,
+    hasMore: pages.hasMore,
+    pageCount: pages.pageCount,
+    loadMore,
     error,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,18 @@
+import { useContext } from 'react';
+import { ToastContext } from '../contexts/toastContext';
+
+/**
+ * Custom hook for showing toast notifications
+ * @returns showToast, dismissToast and the current toasts
+ *
+ * Usage:
+ * const { showToast } = useToast();
+ * showToast({
+ *   variant: 'error',
+ *   message: 'Failed to save tags',
+ *   action: { label: 'Retry', onClick: retry },
+ * });
+ */
+export function useToast() {
+  return useContext(ToastContext);
+}
@@ -0,0 +1,85 @@
+import { useCallback, useState } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+interface UseUndoableStateOptions {
+  /** Maximum number of undo steps kept (default 100) */
+  limit?: number;
+}
+
+/**
+ * Custom hook for state with undo/redo history
+ * @param initialValue - Initial state
+ * @param options - limit (max undo steps)
+ * @returns Current value plus set/reset/undo/redo
+ *
+ * `set` records an undoable step; `reset` replaces the value and clears the
+ * history (e.g. when fresh data is loaded from the server).
+ *
+ * Usage:
+ * const { value, set, undo, redo, canUndo, canRedo } = useUndoableState<string[]>([]);
+ */
+export function useUndoableState<T>(initialValue: T, options: UseUndoableStateOptions = {}) {
+  const { limit = 100 } = options;
+  const [history, setHistory] = useState<History<T>>({
+    past: [],
+    present: initialValue,
+    future: [],
+  });
+
+  const set = useCallback(
+    (next: T | ((previous: T) => T)) => {
+      setHistory(({ past, present }) => {
+        const value =
+          typeof next === 'function' ? (next as (previous: T) => T)(present) : next;
+        if (Object.is(value, present)) {
+          return { past, present, future: [] };
+        }
+        return { past: [...past, present].slice(-limit), present: value, future: [] };
+      });
+    },
+    [limit]
+  );
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((current) => {
+      if (current.past.length === 0) return current;
+      const previous = current.past[current.past.length - 1];
+      return {
+        past: current.past.slice(0, -1),
+        present: previous,
+        future: [current.present, ...current.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((current) => {
+      if (current.future.length === 0) return current;
+      const [next, ...future] = current.future;
+      return {
+        past: [...current.past, current.present],
+        present: next,
+        future,
+      };
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
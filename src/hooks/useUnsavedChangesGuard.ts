@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+
+/**
+ * Custom hook that warns before leaving a page with unsaved changes
+ * @param when - Whether there are unsaved changes right now
+ * @returns Router blocker; render a confirmation while `blocker.state === 'blocked'`
+ * and call `blocker.proceed()` / `blocker.reset()`
+ *
+ * Covers in-app route changes (links, navigate, browser Back) and browser
+ * unload (refresh, closing the tab), which shows the browser's own prompt.
+ *
+ * Usage:
+ * const blocker = useUnsavedChangesGuard(hasChanges);
+ */
+export function useUnsavedChangesGuard(when: boolean) {
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      when && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (!when) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      // 일부 브라우저는 returnValue가 설정되어야 확인 창을 띄움
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, [when]);
+
+  return blocker;
+}
@@ -1,6 +1,9 @@
 import { useEffect, useState, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import api from '../services/api';
+import { getErrorMessage, postDiscordCallback } from '../services/apiClient';
+import { setTokens } from '../services/tokenManager';
+import { broadcastAuthEvent } from '../services/authChannel';
+import { consumeOAuthState, consumeReturnTo } from '../services/oauthState';
 import { useAuth } from '../contexts/AuthContext';
 
 export default function AuthCallbackPage() {
@@ -13,6 +16,7 @@ export default function AuthCallbackPage() {
   useEffect(() => {
     const code = searchParams.get('code');
     const guildId = searchParams.get('guild_id');
+    const state = searchParams.get('state');
 
     if (!code) {
       setError('Authorization code not found');
@@ -25,26 +29,30 @@ export default function AuthCallbackPage() {
     }
     isProcessing.current = true;
 
+    // CSRF 방지: 로그인/봇 초대 요청 시 저장한 state와 비교
+    if (!state) {
+      setError('Missing state parameter. Please start the login again.');
+      return;
+    }
+    if (!consumeOAuthState(guildId ? 'bot' : 'login', state)) {
+      setError('Invalid login request (state mismatch). Please start the login again.');
+      return;
+    }
+
     handleCallback(code, guildId);
   }, [searchParams]);
 
   const handleCallback = async (code: string, guildId: string | null) => {
     try {
-      const response = await api.post('/api/v1/auth/discord/callback', {
-        code,
-        guildId,
-      });
-
-      const { accessToken, refreshToken } = response.data.data;
-
-      localStorage.setItem('accessToken', accessToken);
-      localStorage.setItem('refreshToken', refreshToken);
+      setTokens(await postDiscordCallback(code, guildId));
+      broadcastAuthEvent({ type: 'login' });
 
       await refreshAuth();
-      navigate('/', { replace: true });
+      // 봇 초대는 새 탭에서 진행되므로 홈으로 이동
+      navigate(guildId ? '/' : consumeReturnTo(), { replace: true });
     } catch (err) {
       console.error('OAuth callback failed:', err);
-      setError('Login failed. Please try again.');
+      setError(`${getErrorMessage(err, 'Login failed')}. Please try again.`);
     }
   };
 
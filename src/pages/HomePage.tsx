@@ -32,6 +32,12 @@ export default function HomePage() {
                 >
                   Tag Settings
                 </Link>
+                <Link
+                  to="/account/sessions"
+                  className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+                >
+                  Sessions
+                </Link>
                 <button
                   onClick={logout}
                   className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 transition-colors"
@@ -41,7 +47,7 @@ export default function HomePage() {
               </div>
             ) : (
               <button
-                onClick={login}
+                onClick={() => login()}
                 className="flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 transition-colors"
               >
                 <DiscordIcon />
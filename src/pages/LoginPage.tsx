@@ -0,0 +1,39 @@
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { isSafeReturnPath } from '../services/oauthState';
+
+export default function LoginPage() {
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, isLoading, login } = useAuth();
+  const requested = searchParams.get('returnTo');
+  const returnTo = requested && isSafeReturnPath(requested) ? requested : '/';
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (isAuthenticated) {
+    return <Navigate to={returnTo} replace />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white">
+      <div className="max-w-md w-full mx-4 p-8 rounded-xl bg-gray-800 border border-gray-700 text-center">
+        <h1 className="text-2xl font-bold text-indigo-400 mb-2">
+          <a href="/">CHZ Scout</a>
+        </h1>
+        <p className="text-gray-400 mb-6">Log in with Discord to continue.</p>
+        <button
+          onClick={() => login(returnTo)}
+          className="w-full px-4 py-3 rounded-lg bg-indigo-600 hover:bg-indigo-700 font-semibold transition-colors"
+        >
+          Login with Discord
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { fetchSessions, revokeSession, revokeOtherSessions } from '../services/apiClient';
+import type { AuthSession } from '../types/auth';
+
+const formatDateTime = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+export default function SessionsPage() {
+  const navigate = useNavigate();
+
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // 처리 중인 세션 ID ('others'는 다른 세션 전체 로그아웃)
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await fetchSessions());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch sessions:', err);
+      setError('Failed to load sessions.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevoking(sessionId);
+    try {
+      await revokeSession(sessionId);
+      await loadSessions();
+    } catch (err) {
+      console.error('Failed to revoke session:', err);
+      setError('Failed to log out the session.');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevoking('others');
+    try {
+      await revokeOtherSessions();
+      await loadSessions();
+    } catch (err) {
+      console.error('Failed to revoke other sessions:', err);
+      setError('Failed to log out other sessions.');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <header className="bg-gray-800 shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 py-6 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-indigo-400">
+            <a href="/">CHZ Scout</a>
+          </h1>
+          <button
+            onClick={() => navigate('/')}
+            className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 transition-colors"
+          >
+            Back
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-12">
+        <h2 className="text-3xl font-bold mb-4">Active Sessions</h2>
+        <p className="text-gray-400 mb-6">
+          Devices currently logged in to your account. Log out any session you don't recognize.
+        </p>
+
+        {error && (
+          <div className="mb-6 p-4 rounded-lg bg-red-900/40 border border-red-700 text-red-300">
+            {error}
+          </div>
+        )}
+
+        <ul className="mb-8 space-y-3">
+          {sessions.length === 0 ? (
+            <li className="text-gray-500">No active sessions.</li>
+          ) : (
+            sessions.map((session) => (
+              <li
+                key={session.sessionId}
+                className="p-4 rounded-lg bg-gray-800 border border-gray-700 flex items-center justify-between gap-4"
+              >
+                <div>
+                  <div className="font-semibold">
+                    {session.device}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-indigo-600 text-xs">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-400">
+                    Last seen {formatDateTime(session.lastSeenAt)}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    Signed in {formatDateTime(session.createdAt)}
+                  </div>
+                </div>
+                {!session.current && (
+                  <button
+                    onClick={() => handleRevoke(session.sessionId)}
+                    disabled={revoking !== null}
+                    className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {revoking === session.sessionId ? 'Logging out...' : 'Log out'}
+                  </button>
+                )}
+              </li>
+            ))
+          )}
+        </ul>
+
+        <button
+          onClick={handleRevokeOthers}
+          disabled={!hasOtherSessions || revoking !== null}
+          className={`w-full py-3 rounded-lg font-semibold transition-colors ${
+            hasOtherSessions && revoking === null
+              ? 'bg-red-600 hover:bg-red-700 text-white'
+              : 'bg-gray-700 text-gray-500 cursor-not-allowed'
+          }`}
+        >
+          {revoking === 'others' ? 'Logging out...' : 'Log Out All Other Sessions'}
+        </button>
+      </main>
+    </div>
+  );
+}
@@ -1,172 +1,574 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import api from '../services/api';
-import TagAutocomplete from '../components/TagAutocomplete';
-import type { TagType, TagAutocompleteResult, MemberTagsResponse } from '../types/tag';
+import { useToast } from '../hooks/useToast';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { useApiMutation } from '../hooks/useApiMutation';
+import { useUnsavedChangesGuard } from '../hooks/useUnsavedChangesGuard';
+import { useUndoableState } from '../hooks/useUndoableState';
+import {
+  fetchMe,
+  fetchMemberTags,
+  getErrorMessage,
+  updateDeliverySettings,
+  updateMemberTagNotification,
+  updateMemberTagRules,
+  updateNotification,
+  updateQuietHours,
+} from '../services/apiClient';
+import { buildLoginPath } from '../services/oauthState';
+import { invalidateQueries, setQueryData } from '../services/queryCache';
+import {
+  applyChannelResults,
+  applyTagChanges,
+  applyTagResults,
+  computeChannelChanges,
+  computeTagChanges,
+} from '../services/tagTransaction';
+import type { TagTransactionResult } from '../services/tagTransaction';
+import { clearTagDraft, loadTagDraft, saveTagDraft } from '../services/tagDraft';
+import { clearSuggestionCache } from '../services/tagSuggestionCache';
+import { getTagAlertStatus } from '../services/notificationSettings';
+import type { TagDraft } from '../services/tagDraft';
+import { queryKeys } from '../services/queryKeys';
+import TagInput from '../components/TagInput';
+import TagDraftBanner from '../components/TagDraftBanner';
+import TagSaveReport from '../components/TagSaveReport';
+import QuietHoursEditor from '../components/QuietHoursEditor';
+import DeliverySettingsEditor from '../components/DeliverySettingsEditor';
+import TagAlertMenu from '../components/TagAlertMenu';
+import TagRuleEditor from '../components/TagRuleEditor';
+import AlertTester from '../components/AlertTester';
+import ChannelListEditor from '../components/ChannelListEditor';
+import type { User } from '../types/auth';
+import type { DeliverySettings, QuietHours } from '../types/notification';
+import type { TagRuleInput } from '../types/rule';
+import type {
+  TagType,
+  Channel,
+  ChannelListType,
+  MemberChannel,
+  MemberTag,
+  MemberTagsResponse,
+  TagNotificationRequest,
+} from '../types/tag';
+
+type EditedTags = {
+  customTags: string[];
+  categoryTags: string[];
+  blockedChannels: Channel[];
+  favoriteChannels: Channel[];
+};
+
+type SaveResults = Pick<TagTransactionResult, 'results' | 'channelResults' | 'notificationError'>;
+
+const EMPTY_TAGS: EditedTags = {
+  customTags: [],
+  categoryTags: [],
+  blockedChannels: [],
+  favoriteChannels: [],
+};
+
+const tagsChanged = (current: string[], original: string[]): boolean =>
+  current.length !== original.length || current.some((tag) => !original.includes(tag));
+
+const channelsChanged = (current: Channel[], original: Channel[]): boolean =>
+  tagsChanged(
+    current.map((channel) => channel.channelId),
+    original.map((channel) => channel.channelId)
+  );
+
+// 태그나 채널 목록 중 하나라도 다르면 변경된 것으로 봄
+const editsChanged = (current: EditedTags, original: EditedTags): boolean =>
+  tagsChanged(current.customTags, original.customTags) ||
+  tagsChanged(current.categoryTags, original.categoryTags) ||
+  channelsChanged(current.blockedChannels, original.blockedChannels) ||
+  channelsChanged(current.favoriteChannels, original.favoriteChannels);
+
+const toChannels = (channels: MemberChannel[] = []): Channel[] =>
+  channels.map(({ channelId, channelName, channelImageUrl }) => ({
+    channelId,
+    channelName,
+    channelImageUrl,
+  }));
+
+const toMemberChannels = (
+  memberUuid: string,
+  channels: Channel[],
+  listType: ChannelListType
+): MemberChannel[] => channels.map((channel) => ({ ...channel, memberUuid, listType }));
+
+// 이미 저장된 태그는 알림 설정(음소거/일시중지)을 유지
+const toMemberTags = (
+  memberUuid: string,
+  names: string[],
+  tagType: TagType,
+  saved: MemberTag[] = []
+): MemberTag[] =>
+  names.map(
+    (tagName) => saved.find((tag) => tag.tagName === tagName) ?? { memberUuid, tagName, tagType }
+  );
+
+const replaceMemberTag = (tags: MemberTagsResponse, updated: MemberTag): MemberTagsResponse => {
+  const replace = (list: MemberTag[]) =>
+    list.map((tag) =>
+      tag.tagName === updated.tagName && tag.tagType === updated.tagType ? updated : tag
+    );
+  return {
+    ...tags,
+    customTags: replace(tags.customTags),
+    categoryTags: replace(tags.categoryTags),
+  };
+};
 
 export default function TagsPage() {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, sessionEndedElsewhere, acknowledgeSessionEnd } = useAuth();
   const navigate = useNavigate();
+  const { showToast } = useToast();
 
-  const [selectedTagType, setSelectedTagType] = useState<TagType>('CUSTOM');
-  const [searchValue, setSearchValue] = useState('');
-  const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  // 마지막 저장이 실패했을 때 태그/채널별 결과
+  const [saveResults, setSaveResults] = useState<SaveResults | null>(null);
+
+  // 다른 탭에서 로그아웃되어 user가 비어도 마지막 사용자의 태그를 계속 표시
+  const [memberUuid, setMemberUuid] = useState(user?.uuid ?? null);
+  if (user && user.uuid !== memberUuid) {
+    setMemberUuid(user.uuid);
+  }
+
+  const {
+    data: me,
+    error: meError,
+    refetch: refetchMe,
+  } = useApiQuery(queryKeys.me, fetchMe, { enabled: isAuthenticated });
+  const {
+    data: serverTags,
+    error: tagsError,
+    isLoading: loading,
+    refetch: refetchTags,
+  } = useApiQuery(
+    queryKeys.memberTags(memberUuid ?? ''),
+    () => fetchMemberTags(memberUuid ?? ''),
+    { enabled: isAuthenticated && !!memberUuid }
+  );
 
   // Notification settings
-  const [notificationEnabled, setNotificationEnabled] = useState(true);
-  const [notificationToggling, setNotificationToggling] = useState(false);
+  const notificationEnabled = me?.notificationEnabled ?? true;
   const [showNotificationModal, setShowNotificationModal] = useState(false);
+  const { mutate: toggleNotification, isPending: notificationToggling } = useApiMutation(
+    updateNotification,
+    {
+      onSuccess: (enabled) =>
+        setQueryData<User | undefined>(queryKeys.me, (previous) =>
+          previous ? { ...previous, notificationEnabled: enabled } : previous
+        ),
+    }
+  );
+  const { mutate: saveQuietHours, isPending: quietHoursSaving } = useApiMutation(
+    updateQuietHours,
+    {
+      onSuccess: (quietHours) =>
+        setQueryData<User | undefined>(queryKeys.me, (previous) =>
+          previous ? { ...previous, quietHours } : previous
+        ),
+    }
+  );
+  const { mutate: saveDelivery, isPending: deliverySaving } = useApiMutation(
+    updateDeliverySettings,
+    {
+      onSuccess: (delivery) =>
+        setQueryData<User | undefined>(queryKeys.me, (previous) =>
+          previous ? { ...previous, delivery } : previous
+        ),
+    }
+  );
+  const { mutate: saveRules, isPending: rulesSaving } = useApiMutation(
+    (rules: TagRuleInput[]) => updateMemberTagRules(memberUuid ?? '', { rules }),
+    {
+      onSuccess: (rules) =>
+        setQueryData<MemberTagsResponse | undefined>(
+          queryKeys.memberTags(memberUuid ?? ''),
+          (previous) => (previous ? { ...previous, rules } : previous)
+        ),
+    }
+  );
+  const { mutate: saveTagAlert, isPending: tagAlertSaving } = useApiMutation(
+    (request: TagNotificationRequest) => updateMemberTagNotification(memberUuid ?? '', request),
+    {
+      onSuccess: (tag) =>
+        setQueryData<MemberTagsResponse | undefined>(
+          queryKeys.memberTags(tag.memberUuid),
+          (previous) => previous && replaceMemberTag(previous, tag)
+        ),
+    }
+  );
 
   // Original tags from server
   const [originalCustomTags, setOriginalCustomTags] = useState<string[]>([]);
   const [originalCategoryTags, setOriginalCategoryTags] = useState<string[]>([]);
+  const [originalBlockedChannels, setOriginalBlockedChannels] = useState<Channel[]>([]);
+  const [originalFavoriteChannels, setOriginalFavoriteChannels] = useState<Channel[]>([]);
 
-  // Current edited tags
-  const [customTags, setCustomTags] = useState<string[]>([]);
-  const [categoryTags, setCategoryTags] = useState<string[]>([]);
+  // Current edited tags (undo/redo 가능)
+  const {
+    value: editedTags,
+    set: setEditedTags,
+    reset: resetEditedTags,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<EditedTags>(EMPTY_TAGS);
+  const { customTags, categoryTags, blockedChannels, favoriteChannels } = editedTags;
+  const originalTags = useMemo<EditedTags>(
+    () => ({
+      customTags: originalCustomTags,
+      categoryTags: originalCategoryTags,
+      blockedChannels: originalBlockedChannels,
+      favoriteChannels: originalFavoriteChannels,
+    }),
+    [originalCustomTags, originalCategoryTags, originalBlockedChannels, originalFavoriteChannels]
+  );
 
-  useEffect(() => {
-    if (!isLoading && !isAuthenticated) {
-      navigate('/');
+  // 로컬에 저장돼 있던 임시 저장본을 불러왔을 때 표시
+  const [restoredDraft, setRestoredDraft] = useState<TagDraft | null>(null);
+
+  // 서버 데이터가 바뀌면 (최초 로드, 백그라운드 재검증) 원본을 갱신하고,
+  // 편집 중인 변경사항이 없을 때만 현재 목록도 맞춘다
+  // (저장 중에는 낙관적 업데이트 롤백이 편집 내용을 덮어쓰지 않도록 유지)
+  const [syncedTags, setSyncedTags] = useState<MemberTagsResponse | undefined>(undefined);
+  if (serverTags && serverTags !== syncedTags && memberUuid) {
+    const server: EditedTags = {
+      customTags: serverTags.customTags.map((t) => t.tagName),
+      categoryTags: serverTags.categoryTags.map((t) => t.tagName),
+      blockedChannels: toChannels(serverTags.blockedChannels),
+      favoriteChannels: toChannels(serverTags.favoriteChannels),
+    };
+    const editing = editsChanged(editedTags, originalTags);
+    // 첫 로드 때만 임시 저장본 복원
+    const draft = syncedTags === undefined ? loadTagDraft(memberUuid) : null;
+
+    setSyncedTags(serverTags);
+    setOriginalCustomTags(server.customTags);
+    setOriginalCategoryTags(server.categoryTags);
+    setOriginalBlockedChannels(server.blockedChannels);
+    setOriginalFavoriteChannels(server.favoriteChannels);
+    if (draft && editsChanged(draft, server)) {
+      resetEditedTags({
+        customTags: draft.customTags,
+        categoryTags: draft.categoryTags,
+        blockedChannels: draft.blockedChannels,
+        favoriteChannels: draft.favoriteChannels,
+      });
+      setRestoredDraft(draft);
+    } else if (!editing && !saving && editsChanged(server, editedTags)) {
+      // 알림 설정만 바뀐 경우에는 편집 기록을 유지
+      resetEditedTags(server);
     }
-  }, [isAuthenticated, isLoading, navigate]);
+  }
 
   useEffect(() => {
-    if (isAuthenticated && user) {
-      fetchTags();
-      fetchNotificationSettings();
+    if (!tagsError) return;
+    console.error('Failed to fetch tags:', tagsError);
+    showToast({
+      id: 'tags-fetch',
+      variant: 'error',
+      message: getErrorMessage(tagsError, 'Failed to load your tags'),
+      action: { label: 'Retry', onClick: () => refetchTags().catch(() => {}) },
+    });
+  }, [tagsError, refetchTags, showToast]);
+
+  useEffect(() => {
+    if (!meError) return;
+    console.error('Failed to fetch notification settings:', meError);
+    showToast({
+      id: 'settings-fetch',
+      variant: 'error',
+      message: getErrorMessage(meError, 'Failed to load notification settings'),
+      action: { label: 'Retry', onClick: () => refetchMe().catch(() => {}) },
+    });
+  }, [meError, refetchMe, showToast]);
+
+  const handleNotificationToggle = async (enabled: boolean) => {
+    try {
+      await toggleNotification(enabled);
+      showToast({
+        id: 'notification-toggle',
+        variant: 'success',
+        message: enabled ? 'Notifications turned on' : 'Notifications turned off',
+      });
+    } catch (error) {
+      console.error('Failed to update notification settings:', error);
+      showToast({
+        id: 'notification-toggle',
+        variant: 'error',
+        message: getErrorMessage(error, 'Failed to update notification settings'),
+        action: { label: 'Retry', onClick: () => handleNotificationToggle(enabled) },
+      });
     }
-  }, [isAuthenticated, user]);
+  };
 
-  const fetchTags = async () => {
-    if (!user) return;
+  const handleQuietHoursSave = async (quietHours: QuietHours) => {
     try {
-      const response = await api.get<{ success: boolean; data: MemberTagsResponse }>(
-        `/api/v1/members/${user.uuid}/tags`
-      );
-      const data = response.data.data;
-      const custom = (data?.customTags || []).map((t) => t.tagName);
-      const category = (data?.categoryTags || []).map((t) => t.tagName);
-
-      setOriginalCustomTags(custom);
-      setOriginalCategoryTags(category);
-      setCustomTags(custom);
-      setCategoryTags(category);
+      await saveQuietHours(quietHours);
+      showToast({ id: 'quiet-hours', variant: 'success', message: 'Quiet hours saved' });
     } catch (error) {
-      console.error('Failed to fetch tags:', error);
-    } finally {
-      setLoading(false);
+      console.error('Failed to save quiet hours:', error);
+      showToast({
+        id: 'quiet-hours',
+        variant: 'error',
+        message: getErrorMessage(error, 'Failed to save quiet hours'),
+        action: { label: 'Retry', onClick: () => handleQuietHoursSave(quietHours) },
+      });
     }
   };
 
-  const fetchNotificationSettings = async () => {
-    if (!user) return;
+  const handleDeliverySave = async (delivery: DeliverySettings) => {
     try {
-      const response = await api.get<{ success: boolean; data: { notificationEnabled?: boolean } }>(
-        '/api/v1/members/me'
-      );
-      const enabled = response.data.data?.notificationEnabled;
-      if (enabled !== undefined) {
-        setNotificationEnabled(enabled);
-      }
+      await saveDelivery(delivery);
+      showToast({ id: 'delivery', variant: 'success', message: 'Delivery settings saved' });
     } catch (error) {
-      console.error('Failed to fetch notification settings:', error);
+      console.error('Failed to save delivery settings:', error);
+      showToast({
+        id: 'delivery',
+        variant: 'error',
+        message: getErrorMessage(error, 'Failed to save delivery settings'),
+        action: { label: 'Retry', onClick: () => handleDeliverySave(delivery) },
+      });
     }
   };
 
-  const handleNotificationToggle = async (enabled: boolean) => {
-    setNotificationToggling(true);
+  const handleRulesSave = async (rules: TagRuleInput[]) => {
     try {
-      await api.patch<{ success: boolean; data: boolean }>(
-        `/api/v1/members/me/notification?enabled=${enabled}`
-      );
-      setNotificationEnabled(enabled);
+      await saveRules(rules);
+      showToast({ id: 'tag-rules', variant: 'success', message: 'Rules saved' });
     } catch (error) {
-      console.error('Failed to update notification settings:', error);
-      setNotificationEnabled(!enabled);
-    } finally {
-      setNotificationToggling(false);
+      console.error('Failed to save rules:', error);
+      showToast({
+        id: 'tag-rules',
+        variant: 'error',
+        message: getErrorMessage(error, 'Failed to save rules'),
+        action: { label: 'Retry', onClick: () => handleRulesSave(rules) },
+      });
     }
   };
 
-  const hasChanges = useMemo(() => {
-    const customChanged =
-      customTags.length !== originalCustomTags.length ||
-      customTags.some((tag) => !originalCustomTags.includes(tag));
-    const categoryChanged =
-      categoryTags.length !== originalCategoryTags.length ||
-      categoryTags.some((tag) => !originalCategoryTags.includes(tag));
-    return customChanged || categoryChanged;
-  }, [customTags, categoryTags, originalCustomTags, originalCategoryTags]);
-
-  const handleTagSelect = (tag: TagAutocompleteResult) => {
-    const tagName = tag.name;
-    if (selectedTagType === 'CUSTOM') {
-      if (!customTags.includes(tagName)) {
-        setCustomTags([...customTags, tagName]);
-      }
-    } else {
-      if (!categoryTags.includes(tagName)) {
-        setCategoryTags([...categoryTags, tagName]);
-      }
+  const handleTagAlertChange = async (
+    tag: MemberTag,
+    settings: { muted: boolean; snoozedUntil: string | null }
+  ) => {
+    try {
+      await saveTagAlert({ name: tag.tagName, tagType: tag.tagType, ...settings });
+      showToast({
+        id: 'tag-alert',
+        variant: 'success',
+        message: settings.muted
+          ? `Muted "${tag.tagName}"`
+          : settings.snoozedUntil
+            ? `Snoozed "${tag.tagName}"`
+            : `Alerts resumed for "${tag.tagName}"`,
+      });
+    } catch (error) {
+      console.error('Failed to update tag alerts:', error);
+      showToast({
+        id: 'tag-alert',
+        variant: 'error',
+        message: getErrorMessage(error, `Failed to update alerts for "${tag.tagName}"`),
+        action: { label: 'Retry', onClick: () => handleTagAlertChange(tag, settings) },
+      });
     }
-    setSearchValue('');
   };
 
-  const removeTag = (tagName: string, type: TagType) => {
-    if (type === 'CUSTOM') {
-      setCustomTags(customTags.filter((t) => t !== tagName));
-    } else {
-      setCategoryTags(categoryTags.filter((t) => t !== tagName));
+  // 저장된 태그에만 알림 설정 메뉴 표시 (새로 추가한 태그는 저장 후 설정 가능)
+  const savedRules = useMemo(() => serverTags?.rules ?? [], [serverTags?.rules]);
+
+  // 다이제스트 미리보기는 편집 중인 태그 기준 (음소거/일시중지된 태그 제외)
+  const isAlertActive = (name: string, saved: MemberTag[] = []) => {
+    const tag = saved.find((item) => item.tagName === name);
+    return !tag || getTagAlertStatus(tag) === 'active';
+  };
+  const previewCustomTags = customTags.filter((name) =>
+    isAlertActive(name, serverTags?.customTags)
+  );
+  const previewCategoryTags = categoryTags.filter((name) =>
+    isAlertActive(name, serverTags?.categoryTags)
+  );
+
+  const renderTagAlertMenu = (tagType: TagType) => (name: string) => {
+    const saved = tagType === 'CUSTOM' ? serverTags?.customTags : serverTags?.categoryTags;
+    const tag = saved?.find((item) => item.tagName === name);
+    if (!tag) return null;
+    return (
+      <TagAlertMenu
+        tag={tag}
+        disabled={tagAlertSaving || !isAuthenticated}
+        onChange={(settings) => handleTagAlertChange(tag, settings)}
+      />
+    );
+  };
+
+  const hasChanges = useMemo(
+    () => editsChanged(editedTags, originalTags),
+    [editedTags, originalTags]
+  );
+
+  // 변경사항은 사용자별로 로컬에 임시 저장 (새로고침/탭 닫기 후 복원)
+  useEffect(() => {
+    if (!memberUuid || !syncedTags) return;
+    if (hasChanges) {
+      saveTagDraft(memberUuid, editedTags);
+    } else if (!saving) {
+      // 저장 중에는 낙관적 업데이트로 변경사항이 없어 보여도 저장이 끝날 때까지 유지
+      // (실패하거나 그 사이 탭을 닫아도 복원할 수 있도록)
+      clearTagDraft(memberUuid);
     }
+  }, [memberUuid, syncedTags, hasChanges, editedTags, saving]);
+
+  // 로그아웃된 뒤에는 저장할 수 없으므로 가드하지 않음 (임시 저장본은 남아 있음)
+  const blocker = useUnsavedChangesGuard(hasChanges && isAuthenticated);
+
+  const revertToSaved = () => {
+    setEditedTags(originalTags);
   };
 
+  const discardDraft = () => {
+    revertToSaved();
+    setRestoredDraft(null);
+  };
+
+  // 다른 탭에서 로그아웃된 뒤 변경사항을 버리면 다음 로그인 때 복원되지 않도록 임시 저장본도 삭제
+  const discardAfterSessionEnd = () => {
+    if (memberUuid) {
+      clearTagDraft(memberUuid);
+    }
+    discardDraft();
+    acknowledgeSessionEnd();
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) 단축키, 입력창에서는 브라우저 기본 텍스트 undo 유지
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [undo, redo]);
+
+  // 다른 탭에서 로그아웃: 변경사항이 없으면 바로 로그인 페이지로 이동
+  useEffect(() => {
+    if (sessionEndedElsewhere && !hasChanges) {
+      acknowledgeSessionEnd();
+    }
+  }, [sessionEndedElsewhere, hasChanges, acknowledgeSessionEnd]);
+
   const saveChanges = async (enableNotification = false) => {
     if (!user) return;
+    const key = queryKeys.memberTags(user.uuid);
+    const changes = [
+      ...computeTagChanges(originalCustomTags, customTags, 'CUSTOM'),
+      ...computeTagChanges(originalCategoryTags, categoryTags, 'CATEGORY'),
+    ];
+    // 채널을 다른 목록으로 옮긴 경우 기존 목록에서 먼저 빼도록 제거를 앞에 둠
+    const channelChanges = [
+      ...computeChannelChanges(originalBlockedChannels, blockedChannels, 'BLOCKED'),
+      ...computeChannelChanges(originalFavoriteChannels, favoriteChannels, 'FAVORITE'),
+    ].sort((a, b) => (a.op === b.op ? 0 : a.op === 'REMOVE' ? -1 : 1));
+
     setSaving(true);
+    setSaveResults(null);
     setShowNotificationModal(false);
 
+    // 낙관적 업데이트: 저장 완료를 기다리지 않고 캐시(다른 화면 포함)에 먼저 반영
+    setQueryData<MemberTagsResponse>(key, {
+      customTags: toMemberTags(user.uuid, customTags, 'CUSTOM', serverTags?.customTags),
+      categoryTags: toMemberTags(user.uuid, categoryTags, 'CATEGORY', serverTags?.categoryTags),
+      rules: serverTags?.rules,
+      blockedChannels: toMemberChannels(user.uuid, blockedChannels, 'BLOCKED'),
+      favoriteChannels: toMemberChannels(user.uuid, favoriteChannels, 'FAVORITE'),
+    });
+
     try {
-      // 알림 켜기 요청이 있으면 먼저 처리
-      if (enableNotification) {
-        await api.patch<{ success: boolean; data: boolean }>(
-          `/api/v1/members/me/notification?enabled=true`
-        );
-        setNotificationEnabled(true);
-      }
+      const {
+        ok,
+        results,
+        channelResults,
+        notificationEnabled: savedNotification,
+        notificationError,
+      } = await applyTagChanges(user.uuid, changes, { enableNotification, channelChanges });
+      // 사용자 수가 바뀌었으므로 캐시된 추천/인기 태그 무효화
+      clearSuggestionCache();
+      invalidateQueries(['tags']);
 
-      const customChanged =
-        customTags.length !== originalCustomTags.length ||
-        customTags.some((tag) => !originalCustomTags.includes(tag));
-      const categoryChanged =
-        categoryTags.length !== originalCategoryTags.length ||
-        categoryTags.some((tag) => !originalCategoryTags.includes(tag));
-
-      if (customChanged) {
-        await api.patch(`/api/v1/members/${user.uuid}/tags`, {
-          names: customTags,
-          tagType: 'CUSTOM',
-        });
+      if (savedNotification !== undefined) {
+        setQueryData<User | undefined>(queryKeys.me, (previous) =>
+          previous ? { ...previous, notificationEnabled: savedNotification } : previous
+        );
       }
 
-      if (categoryChanged) {
-        await api.patch(`/api/v1/members/${user.uuid}/tags`, {
-          names: categoryTags,
-          tagType: 'CATEGORY',
-        });
+      if (ok) {
+        setRestoredDraft(null);
+        showToast({ id: 'tags-save', variant: 'success', message: 'Changes saved' });
+        return;
       }
 
-      setOriginalCustomTags([...customTags]);
-      setOriginalCategoryTags([...categoryTags]);
-    } catch (error) {
-      console.error('Failed to save tags:', error);
+      // 실패: 캐시를 실제 서버 상태로 되돌림 (편집 중인 목록은 그대로 유지)
+      setQueryData<MemberTagsResponse>(key, {
+        customTags: toMemberTags(
+          user.uuid,
+          applyTagResults(originalCustomTags, results, 'CUSTOM'),
+          'CUSTOM',
+          serverTags?.customTags
+        ),
+        categoryTags: toMemberTags(
+          user.uuid,
+          applyTagResults(originalCategoryTags, results, 'CATEGORY'),
+          'CATEGORY',
+          serverTags?.categoryTags
+        ),
+        rules: serverTags?.rules,
+        blockedChannels: toMemberChannels(
+          user.uuid,
+          applyChannelResults(originalBlockedChannels, channelResults, 'BLOCKED'),
+          'BLOCKED'
+        ),
+        favoriteChannels: toMemberChannels(
+          user.uuid,
+          applyChannelResults(originalFavoriteChannels, channelResults, 'FAVORITE'),
+          'FAVORITE'
+        ),
+      });
+      setSaveResults({ results, channelResults, notificationError });
+      showToast({
+        id: 'tags-save',
+        variant: 'error',
+        message: 'Failed to save changes',
+        action: { label: 'Retry', onClick: () => saveChangesRef.current(enableNotification) },
+      });
     } finally {
       setSaving(false);
     }
   };
 
+  // 토스트의 Retry는 나중에 눌리므로 항상 최신 상태 기준으로 저장
+  const saveChangesRef = useRef(saveChanges);
+  useEffect(() => {
+    saveChangesRef.current = saveChanges;
+  });
+
   const handleSaveClick = () => {
     if (!notificationEnabled) {
       setShowNotificationModal(true);
@@ -175,7 +577,7 @@ export default function TagsPage() {
     }
   };
 
-  if (isLoading || loading) {
+  if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-900">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
@@ -205,6 +607,16 @@ export default function TagsPage() {
           Add tags to receive notifications when matching streams go live.
         </p>
 
+        {restoredDraft && (
+          <TagDraftBanner
+            savedAt={restoredDraft.savedAt}
+            server={originalTags}
+            draft={editedTags}
+            onDiscard={discardDraft}
+            onDismiss={() => setRestoredDraft(null)}
+          />
+        )}
+
         {/* Notification Toggle */}
         <div className="mb-8 p-4 rounded-lg bg-gray-800 border border-gray-700">
           <div className="flex items-center justify-between">
@@ -234,96 +646,196 @@ export default function TagsPage() {
           {notificationToggling && (
             <div className="mt-2 text-sm text-gray-500">Updating...</div>
           )}
+          <DeliverySettingsEditor
+            value={me?.delivery ?? null}
+            previewCustomTags={previewCustomTags}
+            previewCategoryTags={previewCategoryTags}
+            saving={deliverySaving}
+            disabled={!isAuthenticated || !notificationEnabled}
+            onSave={handleDeliverySave}
+          />
         </div>
 
-        {/* Tag Type Selector + Search */}
-        <div className="flex gap-2 mb-8">
-          <select
-            value={selectedTagType}
-            onChange={(e) => setSelectedTagType(e.target.value as TagType)}
-            className="px-4 py-2 rounded-lg bg-gray-800 border border-gray-700 text-white focus:outline-none focus:border-indigo-500"
+        {/* Quiet Hours */}
+        <QuietHoursEditor
+          value={me?.quietHours ?? null}
+          saving={quietHoursSaving}
+          disabled={!isAuthenticated}
+          onSave={handleQuietHoursSave}
+        />
+
+        {/* Edit History */}
+        <div className="flex justify-end gap-2 mb-4 text-sm">
+          <button
+            type="button"
+            onClick={undo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="px-3 py-1 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
           >
-            <option value="CUSTOM">Tag</option>
-            <option value="CATEGORY">Category</option>
-          </select>
-          <TagAutocomplete
-            value={searchValue}
-            onChange={setSearchValue}
-            onSelect={handleTagSelect}
-            tagType={selectedTagType}
-            placeholder={
-              selectedTagType === 'CUSTOM'
-                ? 'Search tags (e.g., LOL, FPS)'
-                : 'Search categories'
-            }
-            className="flex-1"
-          />
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={redo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="px-3 py-1 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Redo
+          </button>
+          <button
+            type="button"
+            onClick={revertToSaved}
+            disabled={!hasChanges}
+            className="px-3 py-1 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Revert to saved
+          </button>
         </div>
 
         {/* Custom Tags Section */}
         <div className="mb-8">
           <h3 className="text-xl font-semibold mb-4 text-indigo-400">Tags</h3>
-          <div className="flex flex-wrap gap-2">
-            {customTags.length === 0 ? (
-              <p className="text-gray-500">No custom tags added yet.</p>
-            ) : (
-              customTags.map((tag) => (
-                <span
-                  key={tag}
-                  className="group inline-flex items-center px-3 py-1 rounded-full bg-indigo-600 text-white"
-                >
-                  {tag}
-                  <button
-                    onClick={() => removeTag(tag, 'CUSTOM')}
-                    className="ml-1 w-0 overflow-hidden opacity-0 group-hover:w-4 group-hover:opacity-100 hover:text-red-300 transition-all duration-200"
-                  >
-                    ×
-                  </button>
-                </span>
-              ))
-            )}
-          </div>
+          <TagInput
+            tagType="CUSTOM"
+            value={customTags}
+            onChange={(tags) => setEditedTags((prev) => ({ ...prev, customTags: tags }))}
+            allowCreate
+            memberUuid={memberUuid ?? undefined}
+            renderChipAddon={renderTagAlertMenu('CUSTOM')}
+            placeholder="Search tags (e.g., LOL, FPS)"
+            emptyMessage="No custom tags added yet."
+          />
         </div>
 
         {/* Category Tags Section */}
         <div className="mb-8">
           <h3 className="text-xl font-semibold mb-4 text-green-400">Categories</h3>
-          <div className="flex flex-wrap gap-2">
-            {categoryTags.length === 0 ? (
-              <p className="text-gray-500">No category tags added yet.</p>
-            ) : (
-              categoryTags.map((tag) => (
-                <span
-                  key={tag}
-                  className="group inline-flex items-center px-3 py-1 rounded-full bg-green-600 text-white"
-                >
-                  {tag}
-                  <button
-                    onClick={() => removeTag(tag, 'CATEGORY')}
-                    className="ml-1 w-0 overflow-hidden opacity-0 group-hover:w-4 group-hover:opacity-100 hover:text-red-300 transition-all duration-200"
-                  >
-                    ×
-                  </button>
-                </span>
-              ))
-            )}
-          </div>
+          <TagInput
+            tagType="CATEGORY"
+            value={categoryTags}
+            onChange={(tags) => setEditedTags((prev) => ({ ...prev, categoryTags: tags }))}
+            memberUuid={memberUuid ?? undefined}
+            renderChipAddon={renderTagAlertMenu('CATEGORY')}
+            placeholder="Search categories"
+            emptyMessage="No category tags added yet."
+          />
+        </div>
+
+        {/* Channels Section */}
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold mb-4 text-amber-400">Channels</h3>
+          <ChannelListEditor
+            blocked={blockedChannels}
+            favorites={favoriteChannels}
+            onChange={(channels) => setEditedTags((prev) => ({ ...prev, ...channels }))}
+          />
         </div>
 
         {/* Save Button */}
         <button
           onClick={handleSaveClick}
-          disabled={!hasChanges || saving}
+          disabled={!hasChanges || saving || !isAuthenticated}
           className={`w-full py-3 rounded-lg font-semibold transition-colors ${
-            hasChanges && !saving
+            hasChanges && !saving && isAuthenticated
               ? 'bg-indigo-600 hover:bg-indigo-700 text-white'
               : 'bg-gray-700 text-gray-500 cursor-not-allowed'
           }`}
         >
           {saving ? 'Saving...' : 'Save Changes'}
         </button>
+
+        {saveResults && (
+          <TagSaveReport
+            results={saveResults.results}
+            channelResults={saveResults.channelResults}
+            notificationError={saveResults.notificationError}
+            onDismiss={() => setSaveResults(null)}
+          />
+        )}
+
+        {/* Tag Rules */}
+        <TagRuleEditor
+          value={savedRules}
+          customTags={customTags}
+          categoryTags={categoryTags}
+          memberUuid={memberUuid ?? undefined}
+          saving={rulesSaving}
+          disabled={!isAuthenticated || loading}
+          onSave={handleRulesSave}
+        />
+
+        {/* Alert Tester */}
+        <AlertTester
+          settings={{
+            customTags,
+            categoryTags,
+            notificationEnabled,
+            savedTags: [...(serverTags?.customTags ?? []), ...(serverTags?.categoryTags ?? [])],
+            rules: savedRules,
+            quietHours: me?.quietHours,
+            blockedChannels,
+            favoriteChannels,
+          }}
+          delivery={me?.delivery}
+        />
       </main>
 
+      {/* Unsaved Changes Modal */}
+      {blocker.state === 'blocked' && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-lg p-6 max-w-md mx-4 border border-gray-700">
+            <h3 className="text-xl font-bold text-white mb-3">저장하지 않은 변경사항이 있습니다</h3>
+            <p className="text-gray-400 mb-6">
+              이 페이지를 나가도 변경사항은 이 기기에 임시 저장되어 다음 방문 시 복원됩니다.
+              저장하지 않고 나가시겠습니까?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => blocker.proceed()}
+                className="flex-1 py-2 px-4 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-semibold transition-colors"
+              >
+                나가기
+              </button>
+              <button
+                onClick={() => blocker.reset()}
+                className="flex-1 py-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-semibold transition-colors"
+              >
+                계속 편집
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Logged Out In Another Tab Modal */}
+      {sessionEndedElsewhere && hasChanges && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-lg p-6 max-w-md mx-4 border border-gray-700">
+            <h3 className="text-xl font-bold text-white mb-3">다른 탭에서 로그아웃되었습니다</h3>
+            <p className="text-gray-400 mb-6">
+              저장하지 않은 태그 변경사항이 있습니다. 새 탭에서 다시 로그인하면 이 페이지에서
+              변경사항을 그대로 저장할 수 있습니다.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => window.open(buildLoginPath('/tags'), '_blank')}
+                className="flex-1 py-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-semibold transition-colors"
+              >
+                새 탭에서 로그인
+              </button>
+              <button
+                onClick={discardAfterSessionEnd}
+                className="flex-1 py-2 px-4 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-semibold transition-colors"
+              >
+                변경사항 버리기
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Notification Off Modal */}
       {showNotificationModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
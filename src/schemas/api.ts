@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import type { ApiErrorBody } from '../types/api';
+
+export const apiErrorBodySchema = z.object({
+  code: z.string(),
+  message: z.string(),
+}) satisfies z.ZodType<ApiErrorBody>;
+
+/**
+ * Envelope of every backend response; `data` is validated separately
+ * with the endpoint's own schema
+ */
+export const apiResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.unknown().optional().transform((data) => data ?? null),
+  error: apiErrorBodySchema.nullish().transform((error) => error ?? null),
+});
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import type { AuthSession, TokenResponse, User } from '../types/auth';
+import { deliverySettingsSchema, quietHoursSchema } from './notification';
+
+export const userSchema = z.object({
+  uuid: z.string(),
+  discordId: z.string(),
+  nickname: z.string(),
+  notificationEnabled: z.boolean().optional(),
+  quietHours: quietHoursSchema.nullish().transform((quietHours) => quietHours ?? null),
+  delivery: deliverySettingsSchema.nullish().transform((delivery) => delivery ?? null),
+}) satisfies z.ZodType<User>;
+
+export const tokenResponseSchema = z.object({
+  accessToken: z.string().min(1),
+  refreshToken: z.string().min(1),
+}) satisfies z.ZodType<TokenResponse>;
+
+export const authSessionSchema = z.object({
+  sessionId: z.string(),
+  device: z.string().default('Unknown device'),
+  lastSeenAt: z.string(),
+  createdAt: z.string(),
+  current: z.boolean().default(false),
+}) satisfies z.ZodType<AuthSession>;
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import type { DeliverySettings, QuietHours } from '../types/notification';
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+export const quietHoursSchema = z.object({
+  enabled: z.boolean().default(false),
+  start: timeOfDaySchema,
+  end: timeOfDaySchema,
+  timeZone: z.string().min(1),
+}) satisfies z.ZodType<QuietHours>;
+
+export const deliverySettingsSchema = z.object({
+  mode: z.enum(['INSTANT', 'HOURLY_DIGEST', 'DAILY_DIGEST']).default('INSTANT'),
+  deliveryTime: timeOfDaySchema.default('09:00'),
+  timeZone: z.string().min(1),
+}) satisfies z.ZodType<DeliverySettings>;
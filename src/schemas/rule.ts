@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import type { TagRule } from '../types/rule';
+
+export const tagRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  expression: z.string(),
+}) satisfies z.ZodType<TagRule>;
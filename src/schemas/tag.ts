@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { tagRuleSchema } from './rule';
+import type {
+  ChannelSearchResult,
+  MemberChannel,
+  MemberTag,
+  MemberTagsResponse,
+  TagAutocompleteResult,
+} from '../types/tag';
+
+export const tagTypeSchema = z.enum(['CATEGORY', 'CUSTOM']);
+
+export const memberTagSchema = z.object({
+  memberUuid: z.string(),
+  tagName: z.string(),
+  tagType: tagTypeSchema,
+  muted: z.boolean().default(false),
+  snoozedUntil: z.string().nullish().transform((until) => until ?? null),
+}) satisfies z.ZodType<MemberTag>;
+
+const channelFields = {
+  channelId: z.string(),
+  channelName: z.string(),
+  channelImageUrl: z.string().nullish().transform((url) => url ?? null),
+};
+
+export const memberChannelSchema = z.object({
+  ...channelFields,
+  memberUuid: z.string(),
+  listType: z.enum(['BLOCKED', 'FAVORITE']),
+}) satisfies z.ZodType<MemberChannel>;
+
+export const channelSearchResultSchema = z.object({
+  ...channelFields,
+  followerCount: z.number().nullish().transform((count) => count ?? 0),
+}) satisfies z.ZodType<ChannelSearchResult>;
+
+export const memberTagsResponseSchema = z.object({
+  customTags: z.array(memberTagSchema).nullish().transform((tags) => tags ?? []),
+  categoryTags: z.array(memberTagSchema).nullish().transform((tags) => tags ?? []),
+  rules: z.array(tagRuleSchema).nullish().transform((rules) => rules ?? []),
+  blockedChannels: z.array(memberChannelSchema).nullish().transform((channels) => channels ?? []),
+  favoriteChannels: z.array(memberChannelSchema).nullish().transform((channels) => channels ?? []),
+}) satisfies z.ZodType<MemberTagsResponse>;
+
+export const tagAutocompleteResultSchema = z.object({
+  name: z.string(),
+  usageCount: z.number().nullish().transform((count) => count ?? 0),
+}) satisfies z.ZodType<TagAutocompleteResult>;
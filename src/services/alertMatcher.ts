@@ -0,0 +1,148 @@
+import { getTagAlertStatus, isWithinQuietHours } from './notificationSettings';
+import { isSameTagName } from './tagName';
+import { parseTagRule } from './tagRule';
+import type { QuietHours, TagAlertStatus } from '../types/notification';
+import type { TagRule, TagRuleExpression } from '../types/rule';
+import type { Channel, ChannelListType, MemberTag, TagType } from '../types/tag';
+
+/**
+ * Stream as entered in the alert tester
+ */
+export interface StreamSample {
+  /** Matched against blocked/favorite channels by name (ignoring case) */
+  channelName?: string;
+  title: string;
+  category: string;
+  tags: string[];
+}
+
+export interface AlertMatchSettings {
+  customTags: string[];
+  categoryTags: string[];
+  notificationEnabled: boolean;
+  /** Saved tags, for their mute/snooze state (tags not saved yet are active) */
+  savedTags?: MemberTag[];
+  rules?: TagRule[];
+  quietHours?: QuietHours | null;
+  blockedChannels?: Channel[];
+  favoriteChannels?: Channel[];
+}
+
+export interface TagMatch {
+  tagName: string;
+  tagType: TagType;
+  matched: boolean;
+  status: TagAlertStatus;
+}
+
+export interface RuleMatch {
+  rule: TagRule;
+  matched: boolean;
+  /** Parse error of a rule that could not be evaluated */
+  error?: string;
+}
+
+/**
+ * - ALERT: an alert would be sent now
+ * - HELD: it matches, but quiet hours hold the alert back until they end
+ * - NO_MATCH: nothing active matched
+ * - BLOCKED: the channel is blocked
+ * - NOTIFICATIONS_OFF: notifications are turned off
+ */
+export type AlertVerdict = 'ALERT' | 'HELD' | 'NO_MATCH' | 'BLOCKED' | 'NOTIFICATIONS_OFF';
+
+export interface AlertMatchResult {
+  verdict: AlertVerdict;
+  tagMatches: TagMatch[];
+  ruleMatches: RuleMatch[];
+  /** List the stream's channel is in, if any */
+  channelList: ChannelListType | null;
+  /** A favorite channel, or tags/rules that matched and are not muted or snoozed */
+  hasActiveMatch: boolean;
+}
+
+const streamHasTerm = (stream: StreamSample, tagType: TagType, name: string): boolean =>
+  tagType === 'CATEGORY'
+    ? !!stream.category && isSameTagName(stream.category, name)
+    : stream.tags.some((tag) => isSameTagName(tag, name));
+
+/**
+ * Evaluate a rule expression against a stream
+ */
+export const evaluateTagRule = (expression: TagRuleExpression, stream: StreamSample): boolean => {
+  switch (expression.kind) {
+    case 'TAG':
+      return streamHasTerm(stream, expression.tagType, expression.name);
+    case 'NOT':
+      return !evaluateTagRule(expression.operand, stream);
+    case 'AND':
+      return expression.operands.every((operand) => evaluateTagRule(operand, stream));
+    case 'OR':
+      return expression.operands.some((operand) => evaluateTagRule(operand, stream));
+  }
+};
+
+/**
+ * Work out whether a stream would trigger an alert:
+ * custom tags match the stream's tags, category tags match its category (both
+ * ignoring case), any matching active tag or rule sends an alert, favorite
+ * channels always alert and blocked channels never do, and quiet hours hold
+ * alerts back. Titles are not matched.
+ */
+export const matchStream = (
+  stream: StreamSample,
+  settings: AlertMatchSettings,
+  now: Date = new Date()
+): AlertMatchResult => {
+  const { savedTags = [], rules = [], blockedChannels = [], favoriteChannels = [] } = settings;
+
+  const toTagMatch = (tagName: string, tagType: TagType): TagMatch => {
+    const saved = savedTags.find((tag) => tag.tagType === tagType && tag.tagName === tagName);
+    return {
+      tagName,
+      tagType,
+      matched: streamHasTerm(stream, tagType, tagName),
+      status: saved ? getTagAlertStatus(saved, now.getTime()) : 'active',
+    };
+  };
+
+  const tagMatches = [
+    ...settings.customTags.map((name) => toTagMatch(name, 'CUSTOM')),
+    ...settings.categoryTags.map((name) => toTagMatch(name, 'CATEGORY')),
+  ];
+
+  const ruleMatches = rules.map((rule): RuleMatch => {
+    const parsed = parseTagRule(rule.expression);
+    return parsed.ok
+      ? { rule, matched: evaluateTagRule(parsed.expression, stream) }
+      : { rule, matched: false, error: parsed.error };
+  });
+
+  const isChannel = (channel: Channel) =>
+    !!stream.channelName && isSameTagName(channel.channelName, stream.channelName);
+  const channelList: ChannelListType | null = blockedChannels.some(isChannel)
+    ? 'BLOCKED'
+    : favoriteChannels.some(isChannel)
+      ? 'FAVORITE'
+      : null;
+
+  const hasActiveMatch =
+    channelList === 'FAVORITE' ||
+    tagMatches.some((match) => match.matched && match.status === 'active') ||
+    ruleMatches.some((match) => match.matched);
+
+  let verdict: AlertVerdict;
+  if (!settings.notificationEnabled) {
+    verdict = 'NOTIFICATIONS_OFF';
+  } else if (channelList === 'BLOCKED') {
+    verdict = 'BLOCKED';
+  } else if (!hasActiveMatch) {
+    verdict = 'NO_MATCH';
+  } else if (isWithinQuietHours(settings.quietHours, now)) {
+    verdict = 'HELD';
+  } else {
+    verdict = 'ALERT';
+  }
+
+  return { verdict, tagMatches, ruleMatches, channelList, hasActiveMatch };
+};
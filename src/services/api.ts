@@ -1,6 +1,13 @@
 import axios from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+import {
+  expireSession,
+  getAccessToken,
+  isRefreshRejected,
+  refreshAccessToken,
+} from './tokenManager';
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8080';
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8080';
 
 export const api = axios.create({
   baseURL: API_BASE_URL,
@@ -10,10 +17,12 @@ export const api = axios.create({
   },
 });
 
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
 // Request interceptor: JWT 토큰 자동 첨부
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('accessToken');
+    const token = getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -22,32 +31,24 @@ api.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
-// Response interceptor: 401 에러 시 토큰 갱신 시도
+// Response interceptor: 401 에러 시 토큰 갱신 후 재요청
 api.interceptors.response.use(
   (response) => response,
   async (error) => {
-    const originalRequest = error.config;
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
 
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
       originalRequest._retry = true;
 
       try {
-        const refreshToken = localStorage.getItem('refreshToken');
-        const response = await axios.post(
-          `${API_BASE_URL}/api/v1/auth/reissue`,
-          {},
-          { headers: { Authorization: `Bearer ${refreshToken}` } }
-        );
-
-        const { accessToken } = response.data.data;
-        localStorage.setItem('accessToken', accessToken);
-
+        const accessToken = await refreshAccessToken();
         originalRequest.headers.Authorization = `Bearer ${accessToken}`;
         return api(originalRequest);
       } catch (refreshError) {
-        localStorage.removeItem('accessToken');
-        localStorage.removeItem('refreshToken');
-        window.location.href = '/login';
+        // 네트워크 오류 등 일시적인 실패로는 로그아웃하지 않음
+        if (isRefreshRejected(refreshError)) {
+          expireSession();
+        }
         return Promise.reject(refreshError);
       }
     }
@@ -56,4 +57,4 @@ api.interceptors.response.use(
   }
 );
 
-export default api;
\ No newline at end of file
+export default api;
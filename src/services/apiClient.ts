@@ -0,0 +1,442 @@
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import { z } from 'zod';
+import api, { API_BASE_URL } from './api';
+import { apiResponseSchema } from '../schemas/api';
+import { authSessionSchema, tokenResponseSchema, userSchema } from '../schemas/auth';
+import { deliverySettingsSchema, quietHoursSchema } from '../schemas/notification';
+import { tagRuleSchema } from '../schemas/rule';
+import {
+  channelSearchResultSchema,
+  memberTagSchema,
+  memberTagsResponseSchema,
+  tagAutocompleteResultSchema,
+} from '../schemas/tag';
+import type { ApiResponse } from '../types/api';
+import type { AuthSession, TokenResponse, User } from '../types/auth';
+import type { DeliverySettings, QuietHours } from '../types/notification';
+import type { TagRule, UpdateTagRulesRequest } from '../types/rule';
+import type {
+  ChannelDeltaRequest,
+  ChannelSearchParams,
+  ChannelSearchResult,
+  MemberTag,
+  MemberTagsResponse,
+  TagAutocompleteParams,
+  TagAutocompleteResult,
+  TagDeltaRequest,
+  TagNotificationRequest,
+  TagType,
+} from '../types/tag';
+
+/**
+ * Error thrown by every API client function
+ * `code` is the server's `error.code` when the server sent one, otherwise
+ * `NETWORK_ERROR` (no response), `ABORTED` (cancelled through an
+ * AbortSignal), `INVALID_RESPONSE` (payload failed schema validation) or
+ * `UNKNOWN_ERROR`.
+ */
+export class ApiError extends Error {
+  readonly code: string;
+  readonly status: number | null;
+
+  constructor(code: string, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * User-facing message for a failed request
+ * The server's message is shown when it sent one; otherwise `fallback`.
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ApiError &&
+  !['NETWORK_ERROR', 'ABORTED', 'INVALID_RESPONSE', 'UNKNOWN_ERROR'].includes(error.code)
+    ? `${fallback}: ${error.message}`
+    : fallback;
+
+const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (axios.isCancel(error)) {
+    return new ApiError('ABORTED', 'Request was cancelled', null);
+  }
+
+  if (axios.isAxiosError<ApiResponse<unknown>>(error)) {
+    const body = error.response?.data?.error;
+    if (body) {
+      return new ApiError(body.code, body.message, error.response?.status ?? null);
+    }
+    if (!error.response) {
+      return new ApiError('NETWORK_ERROR', 'Could not reach the server', null);
+    }
+    return new ApiError('UNKNOWN_ERROR', error.message, error.response.status);
+  }
+
+  return new ApiError('UNKNOWN_ERROR', error instanceof Error ? error.message : 'Unknown error');
+};
+
+const describeRequest = (response: AxiosResponse): string =>
+  `${(response.config.method ?? 'get').toUpperCase()} ${response.config.url ?? ''}`;
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .map((issue) => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+
+const invalidResponse = (response: AxiosResponse, error: z.ZodError): ApiError => {
+  const message = `Invalid response from ${describeRequest(response)}: ${describeIssues(error)}`;
+  console.error(message, response.data);
+  return new ApiError('INVALID_RESPONSE', message, response.status);
+};
+
+/**
+ * Await a request, validate the `ApiResponse` envelope and its `data`, and
+ * unwrap it
+ * @param schema - Schema of `data`; its defaults fill in optional fields
+ * @returns The validated `data` (null for endpoints without a payload)
+ * @throws ApiError when the request fails, the envelope reports an error or
+ * the payload does not match the schema
+ */
+const unwrap = async <T>(
+  request: Promise<AxiosResponse<ApiResponse<unknown>>>,
+  schema: z.ZodType<T>
+): Promise<T | null> => {
+  let response: AxiosResponse<ApiResponse<unknown>>;
+  try {
+    response = await request;
+  } catch (error) {
+    throw toApiError(error);
+  }
+
+  const envelope = apiResponseSchema.safeParse(response.data);
+  if (!envelope.success) {
+    throw invalidResponse(response, envelope.error);
+  }
+
+  const { success, data, error } = envelope.data;
+  if (!success) {
+    throw new ApiError(
+      error?.code ?? 'UNKNOWN_ERROR',
+      error?.message ?? 'Request failed',
+      response.status
+    );
+  }
+  if (data === null) return null;
+
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw invalidResponse(response, parsed.error);
+  }
+  return parsed.data;
+};
+
+// 응답 데이터를 사용하지 않는 엔드포인트용
+const ignoredData = z.unknown();
+
+// ---------------------------------------------------------------------------
+// Auth
+// ---------------------------------------------------------------------------
+
+/**
+ * Exchange a Discord OAuth code for tokens
+ * @param code - Authorization code from Discord
+ * @param guildId - Guild the bot was added to (bot invite flow only)
+ */
+export const postDiscordCallback = async (
+  code: string,
+  guildId: string | null
+): Promise<TokenResponse> => {
+  const tokens = await unwrap(
+    api.post<ApiResponse<TokenResponse>>('/api/v1/auth/discord/callback', { code, guildId }),
+    tokenResponseSchema
+  );
+  if (!tokens) throw new ApiError('UNKNOWN_ERROR', 'Login response has no tokens');
+  return tokens;
+};
+
+/**
+ * Reissue tokens with a refresh token
+ * Sent without the `api` interceptors so a failing reissue never triggers
+ * another reissue.
+ */
+export const reissueTokens = async (refreshToken: string | null): Promise<TokenResponse> => {
+  const tokens = await unwrap(
+    axios.post<ApiResponse<TokenResponse>>(
+      `${API_BASE_URL}/api/v1/auth/reissue`,
+      {},
+      { headers: { Authorization: `Bearer ${refreshToken}` } }
+    ),
+    tokenResponseSchema
+  );
+  if (!tokens) throw new ApiError('UNKNOWN_ERROR', 'Reissue response has no tokens');
+  return tokens;
+};
+
+/**
+ * Invalidate the given refresh token on the server
+ */
+export const logoutFromServer = async (refreshToken: string | null): Promise<void> => {
+  await unwrap(api.post<ApiResponse<null>>('/api/v1/auth/logout', { refreshToken }), ignoredData);
+};
+
+/**
+ * Fetch the current user's active sessions
+ * @returns Sessions (the current one is marked `current`)
+ */
+export const fetchSessions = async (): Promise<AuthSession[]> => {
+  return (
+    (await unwrap(
+      api.get<ApiResponse<AuthSession[]>>('/api/v1/auth/sessions'),
+      z.array(authSessionSchema)
+    )) ?? []
+  );
+};
+
+/**
+ * Revoke a single session
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await unwrap(
+    api.delete<ApiResponse<null>>(`/api/v1/auth/sessions/${encodeURIComponent(sessionId)}`),
+    ignoredData
+  );
+};
+
+/**
+ * Revoke every session except the current one
+ */
+export const revokeOtherSessions = async (): Promise<void> => {
+  await unwrap(api.delete<ApiResponse<null>>('/api/v1/auth/sessions/others'), ignoredData);
+};
+
+// ---------------------------------------------------------------------------
+// Members
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch the signed-in member (profile and notification settings)
+ */
+export const fetchMe = async (): Promise<User> => {
+  const me = await unwrap(api.get<ApiResponse<User>>('/api/v1/members/me'), userSchema);
+  if (!me) throw new ApiError('UNKNOWN_ERROR', 'Member response is empty');
+  return me;
+};
+
+/**
+ * Turn tag notifications on or off
+ * @returns The notification setting stored by the server
+ */
+export const updateNotification = async (enabled: boolean): Promise<boolean> => {
+  const stored = await unwrap(
+    api.patch<ApiResponse<boolean>>(`/api/v1/members/me/notification?enabled=${enabled}`),
+    z.boolean()
+  );
+  return stored ?? enabled;
+};
+
+/**
+ * Save the member's quiet hours
+ * @returns The quiet hours stored by the server
+ */
+export const updateQuietHours = async (quietHours: QuietHours): Promise<QuietHours> => {
+  const stored = await unwrap(
+    api.patch<ApiResponse<QuietHours>>('/api/v1/members/me/quiet-hours', quietHours),
+    quietHoursSchema
+  );
+  return stored ?? quietHours;
+};
+
+/**
+ * Save how the member's alerts are delivered (instant or digest)
+ * @returns The delivery settings stored by the server
+ */
+export const updateDeliverySettings = async (
+  settings: DeliverySettings
+): Promise<DeliverySettings> => {
+  const stored = await unwrap(
+    api.patch<ApiResponse<DeliverySettings>>('/api/v1/members/me/delivery', settings),
+    deliverySettingsSchema
+  );
+  return stored ?? settings;
+};
+
+/**
+ * Fetch a member's custom and category tags
+ */
+export const fetchMemberTags = async (memberUuid: string): Promise<MemberTagsResponse> => {
+  const tags = await unwrap(
+    api.get<ApiResponse<MemberTagsResponse>>(`/api/v1/members/${memberUuid}/tags`),
+    memberTagsResponseSchema
+  );
+  return tags ?? { customTags: [], categoryTags: [] };
+};
+
+/**
+ * Add a single tag to a member
+ */
+export const addMemberTag = async (memberUuid: string, request: TagDeltaRequest): Promise<void> => {
+  await unwrap(
+    api.post<ApiResponse<unknown>>(`/api/v1/members/${memberUuid}/tags`, request),
+    ignoredData
+  );
+};
+
+/**
+ * Remove a single tag from a member
+ */
+export const removeMemberTag = async (
+  memberUuid: string,
+  request: TagDeltaRequest
+): Promise<void> => {
+  await unwrap(
+    api.delete<ApiResponse<unknown>>(`/api/v1/members/${memberUuid}/tags`, { params: request }),
+    ignoredData
+  );
+};
+
+/**
+ * Mute, snooze or resume alerts for one of a member's tags
+ * @returns The updated tag
+ */
+export const updateMemberTagNotification = async (
+  memberUuid: string,
+  request: TagNotificationRequest
+): Promise<MemberTag> => {
+  const tag = await unwrap(
+    api.patch<ApiResponse<MemberTag>>(`/api/v1/members/${memberUuid}/tags/notification`, request),
+    memberTagSchema
+  );
+  return (
+    tag ?? {
+      memberUuid,
+      tagName: request.name,
+      tagType: request.tagType,
+      muted: request.muted,
+      snoozedUntil: request.snoozedUntil,
+    }
+  );
+};
+
+/**
+ * Replace all of a member's tag rules
+ * @returns The rules stored by the server (with their ids)
+ */
+export const updateMemberTagRules = async (
+  memberUuid: string,
+  request: UpdateTagRulesRequest
+): Promise<TagRule[]> => {
+  const rules = await unwrap(
+    api.put<ApiResponse<TagRule[]>>(`/api/v1/members/${memberUuid}/rules`, request),
+    z.array(tagRuleSchema)
+  );
+  return rules ?? [];
+};
+
+/**
+ * Add a channel to a member's blocked or favorite list
+ */
+export const addMemberChannel = async (
+  memberUuid: string,
+  request: ChannelDeltaRequest
+): Promise<void> => {
+  await unwrap(
+    api.post<ApiResponse<unknown>>(`/api/v1/members/${memberUuid}/channels`, request),
+    ignoredData
+  );
+};
+
+/**
+ * Remove a channel from a member's blocked or favorite list
+ */
+export const removeMemberChannel = async (
+  memberUuid: string,
+  request: ChannelDeltaRequest
+): Promise<void> => {
+  await unwrap(
+    api.delete<ApiResponse<unknown>>(`/api/v1/members/${memberUuid}/channels`, {
+      params: request,
+    }),
+    ignoredData
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Tags
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch a page of tag suggestions for a prefix
+ */
+export const fetchTagSuggestions = async (
+  params: TagAutocompleteParams,
+  signal?: AbortSignal
+): Promise<TagAutocompleteResult[]> => {
+  const { prefix, tagType, limit = 10, offset = 0 } = params;
+
+  const queryParams = new URLSearchParams({
+    prefix,
+    limit: limit.toString(),
+  });
+
+  if (tagType) {
+    queryParams.append('tagType', tagType);
+  }
+  if (offset > 0) {
+    queryParams.append('offset', offset.toString());
+  }
+
+  return (
+    (await unwrap(
+      api.get<ApiResponse<TagAutocompleteResult[]>>(
+        `/api/v1/tags/suggestions?${queryParams.toString()}`,
+        { signal }
+      ),
+      z.array(tagAutocompleteResultSchema)
+    )) ?? []
+  );
+};
+
+/**
+ * Fetch the most used tags across all members, ranked by the server
+ */
+export const fetchTopTags = async (
+  params: { tagType?: TagType; limit?: number },
+  signal?: AbortSignal
+): Promise<TagAutocompleteResult[]> => {
+  const { tagType, limit = 5 } = params;
+  return (
+    (await unwrap(
+      api.get<ApiResponse<TagAutocompleteResult[]>>('/api/v1/tags/popular', {
+        params: { tagType, limit },
+        signal,
+      }),
+      z.array(tagAutocompleteResultSchema)
+    )) ?? []
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Channels
+// ---------------------------------------------------------------------------
+
+/**
+ * Search Chzzk channels by name
+ */
+export const searchChannels = async (
+  params: ChannelSearchParams,
+  signal?: AbortSignal
+): Promise<ChannelSearchResult[]> => {
+  const { keyword, limit = 10 } = params;
+  return (
+    (await unwrap(
+      api.get<ApiResponse<ChannelSearchResult[]>>('/api/v1/channels/search', {
+        params: { keyword, limit },
+        signal,
+      }),
+      z.array(channelSearchResultSchema)
+    )) ?? []
+  );
+};
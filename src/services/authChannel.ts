@@ -0,0 +1,34 @@
+/**
+ * Auth events shared between open tabs of the app
+ * - login: a tab finished the Discord login
+ * - logout: a tab logged out or its session expired
+ * - tokens: a tab reissued (rotated) the tokens in localStorage
+ */
+export type AuthEvent = { type: 'login' } | { type: 'logout' } | { type: 'tokens' };
+
+type AuthEventListener = (event: AuthEvent) => void;
+
+const CHANNEL_NAME = 'chz-scout-auth';
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+/**
+ * Send an auth event to every other open tab (not to this one)
+ */
+export const broadcastAuthEvent = (event: AuthEvent) => {
+  channel?.postMessage(event);
+};
+
+/**
+ * Subscribe to auth events sent from other tabs
+ * @returns Unsubscribe function
+ */
+export const onAuthEvent = (listener: AuthEventListener) => {
+  if (!channel) return () => {};
+
+  const handleMessage = (message: MessageEvent<AuthEvent>) => listener(message.data);
+  channel.addEventListener('message', handleMessage);
+  return () => {
+    channel.removeEventListener('message', handleMessage);
+  };
+};
@@ -0,0 +1,146 @@
+import type {
+  DeliveryMode,
+  DeliverySettings,
+  DigestPreviewItem,
+  QuietHours,
+  TagAlertStatus,
+} from '../types/notification';
+import type { MemberTag } from '../types/tag';
+
+export const SNOOZE_HOURS_OPTIONS = [1, 4, 8, 24];
+
+/** Browser time zone, used as the default for new quiet hours */
+export const getLocalTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DEFAULT_QUIET_HOURS: Omit<QuietHours, 'timeZone'> = {
+  enabled: false,
+  start: '23:00',
+  end: '08:00',
+};
+
+/**
+ * End of a snooze starting now
+ * @returns ISO 8601 timestamp `hours` from `now`
+ */
+export const snoozeUntil = (hours: number, now: number = Date.now()): string =>
+  new Date(now + hours * 60 * 60 * 1000).toISOString();
+
+/**
+ * Whether alerts for a tag are currently sent
+ * A snooze that has already ended counts as active.
+ */
+export const getTagAlertStatus = (
+  tag: Pick<MemberTag, 'muted' | 'snoozedUntil'>,
+  now: number = Date.now()
+): TagAlertStatus => {
+  if (tag.muted) return 'muted';
+  if (tag.snoozedUntil && Date.parse(tag.snoozedUntil) > now) return 'snoozed';
+  return 'active';
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Minutes since midnight of `date` in a time zone
+ */
+const minutesInTimeZone = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+};
+
+/**
+ * Whether `date` falls inside the quiet hours (start inclusive, end exclusive)
+ * Windows spanning midnight (start later than end) are supported; equal start
+ * and end mean an empty window. A time zone this browser does not know counts
+ * as not in quiet hours.
+ */
+export const isWithinQuietHours = (
+  quietHours: QuietHours | null | undefined,
+  date: Date = new Date()
+): boolean => {
+  if (!quietHours?.enabled) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  let current: number;
+  try {
+    current = minutesInTimeZone(date, quietHours.timeZone);
+  } catch {
+    // 서버 값이 이 브라우저가 모르는 시간대면 RangeError (렌더링 중 호출되므로 로그 없이 처리)
+    return false;
+  }
+
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+/**
+ * Time zones to offer in the quiet hours editor
+ */
+export const getTimeZoneOptions = (): string[] => {
+  const zones =
+    typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  const local = getLocalTimeZone();
+  return zones.includes(local) ? zones : [local, ...zones];
+};
+
+export const DEFAULT_DELIVERY: Omit<DeliverySettings, 'timeZone'> = {
+  mode: 'INSTANT',
+  deliveryTime: '09:00',
+};
+
+export const DELIVERY_MODE_LABELS: Record<DeliveryMode, string> = {
+  INSTANT: 'Instant',
+  HOURLY_DIGEST: 'Hourly digest',
+  DAILY_DIGEST: 'Daily digest',
+};
+
+export const isDigestMode = (mode: DeliveryMode): boolean => mode !== 'INSTANT';
+
+/**
+ * Human-readable delivery schedule, e.g. "Every day at 21:00 (Asia/Seoul)"
+ */
+export const describeDeliverySchedule = (settings: DeliverySettings): string => {
+  switch (settings.mode) {
+    case 'INSTANT':
+      return 'Each stream is sent as soon as it goes live';
+    case 'HOURLY_DIGEST':
+      return `Every hour at :${settings.deliveryTime.slice(3)} (${settings.timeZone})`;
+    case 'DAILY_DIGEST':
+      return `Every day at ${settings.deliveryTime} (${settings.timeZone})`;
+  }
+};
+
+export const DIGEST_PREVIEW_LIMIT = 5;
+
+/**
+ * Sample streams a digest could list for the given tags (one per tag, up to
+ * DIGEST_PREVIEW_LIMIT); categories first since they match whole streams
+ */
+export const buildDigestPreview = (
+  customTags: string[],
+  categoryTags: string[]
+): DigestPreviewItem[] =>
+  [
+    ...categoryTags.map((tag) => ({ tag, title: `Playing ${tag} with viewers` })),
+    ...customTags.map((tag) => ({ tag, title: `[${tag}] Live now` })),
+  ]
+    .slice(0, DIGEST_PREVIEW_LIMIT)
+    .map(({ tag, title }, index) => ({
+      channelName: `Streamer ${String.fromCharCode(65 + index)}`,
+      title,
+      matchedTag: tag,
+    }));
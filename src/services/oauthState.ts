@@ -0,0 +1,68 @@
+export type OAuthFlow = 'login' | 'bot';
+
+const STATE_KEY_PREFIX = 'oauthState:';
+
+const generateState = (): string => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Create a random OAuth `state` for one authorize attempt and remember it
+ * for this browser session
+ * @param flow - Which Discord flow the state belongs to
+ * @returns State value to send in the authorize URL
+ */
+export const createOAuthState = (flow: OAuthFlow): string => {
+  const state = generateState();
+  sessionStorage.setItem(`${STATE_KEY_PREFIX}${flow}`, state);
+  return state;
+};
+
+/**
+ * Check the `state` returned by Discord against the stored one.
+ * The stored state is removed either way, so it can only be used once.
+ * @returns true if the state matches the pending authorize attempt
+ */
+export const consumeOAuthState = (flow: OAuthFlow, state: string | null): boolean => {
+  const key = `${STATE_KEY_PREFIX}${flow}`;
+  const expected = sessionStorage.getItem(key);
+  sessionStorage.removeItem(key);
+
+  return !!state && !!expected && state === expected;
+};
+
+const RETURN_TO_KEY = 'authReturnTo';
+
+// 같은 사이트 내부 경로만 허용 (오픈 리다이렉트 방지)
+export const isSafeReturnPath = (path: string): boolean =>
+  path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\');
+
+/**
+ * Remember the page to return to after the Discord OAuth round trip
+ * @param path - Path including query string (e.g. `/tags?type=CATEGORY`)
+ */
+export const saveReturnTo = (path: string) => {
+  if (isSafeReturnPath(path)) {
+    sessionStorage.setItem(RETURN_TO_KEY, path);
+  } else {
+    sessionStorage.removeItem(RETURN_TO_KEY);
+  }
+};
+
+/**
+ * Read and clear the page saved by `saveReturnTo`
+ * @returns Saved path, or `/` if none was saved
+ */
+export const consumeReturnTo = (): string => {
+  const path = sessionStorage.getItem(RETURN_TO_KEY);
+  sessionStorage.removeItem(RETURN_TO_KEY);
+  return path && isSafeReturnPath(path) ? path : '/';
+};
+
+/**
+ * Build the login route URL that returns to `path` after signing in
+ */
+export const buildLoginPath = (path: string): string =>
+  isSafeReturnPath(path) && path !== '/' ? `/login?returnTo=${encodeURIComponent(path)}` : '/login';
@@ -0,0 +1,159 @@
+export type QueryKey = readonly (string | number | boolean | null)[];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  isFetching: boolean;
+  /** When `data` was last fetched or set (epoch ms), 0 if stale/never */
+  updatedAt: number;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  promise: Promise<unknown> | null;
+  fetcher: (() => Promise<unknown>) | null;
+  listeners: Set<() => void>;
+}
+
+interface FetchQueryOptions {
+  /** Cached data younger than this is returned without a request (default 30s) */
+  staleTime?: number;
+}
+
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: undefined,
+  isFetching: false,
+  updatedAt: 0,
+};
+
+const entries = new Map<string, QueryEntry>();
+
+const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+const getEntry = (key: QueryKey): QueryEntry => {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, promise: null, fetcher: null, listeners: new Set() };
+    entries.set(hash, entry);
+  }
+  return entry;
+};
+
+const setState = (entry: QueryEntry, patch: Partial<QueryState<unknown>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+};
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.every((part, index) => key[index] === part);
+
+/**
+ * Current cached state of a query (stable object until the query changes)
+ */
+export const getQueryState = <T>(key: QueryKey): QueryState<T> =>
+  (entries.get(hashKey(key))?.state ?? EMPTY_STATE) as QueryState<T>;
+
+/**
+ * Subscribe to changes of one query
+ * @returns Unsubscribe function
+ */
+export const subscribeQuery = (key: QueryKey, listener: () => void) => {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+};
+
+/**
+ * Fetch a query through the cache
+ * - Fresh cached data is returned without a request
+ * - Concurrent calls for the same key share one in-flight request
+ * @returns Promise with the (possibly cached) data
+ */
+export const fetchQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: FetchQueryOptions = {}
+): Promise<T> => {
+  const { staleTime = DEFAULT_STALE_TIME } = options;
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+
+  if (entry.promise) {
+    return entry.promise as Promise<T>;
+  }
+  if (entry.state.data !== undefined && Date.now() - entry.state.updatedAt < staleTime) {
+    return Promise.resolve(entry.state.data as T);
+  }
+
+  const promise = fetcher().then(
+    (data) => {
+      if (entry.promise === promise) {
+        entry.promise = null;
+        setState(entry, { data, error: undefined, isFetching: false, updatedAt: Date.now() });
+      }
+      return data;
+    },
+    (error: unknown) => {
+      if (entry.promise === promise) {
+        entry.promise = null;
+        setState(entry, { error, isFetching: false });
+      }
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  setState(entry, { isFetching: true });
+  return promise;
+};
+
+/**
+ * Replace the cached data of a query (e.g. with a mutation result)
+ * An in-flight request for the key is discarded so it can't overwrite the new data.
+ */
+export const setQueryData = <T>(
+  key: QueryKey,
+  updater: T | ((previous: T | undefined) => T)
+) => {
+  const entry = getEntry(key);
+  const data =
+    typeof updater === 'function'
+      ? (updater as (previous: T | undefined) => T)(entry.state.data as T | undefined)
+      : updater;
+  entry.promise = null;
+  setState(entry, { data, error: undefined, isFetching: false, updatedAt: Date.now() });
+};
+
+/**
+ * Mark every query whose key starts with `prefix` as stale and refetch the
+ * ones that are currently displayed
+ */
+export const invalidateQueries = (prefix: QueryKey) => {
+  entries.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+
+    entry.promise = null;
+    setState(entry, { updatedAt: 0, isFetching: false });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher).catch(() => {
+        // 에러는 쿼리 상태로 전달됨
+      });
+    }
+  });
+};
+
+/**
+ * Drop all cached data (on logout, so the next user never sees it)
+ */
+export const clearQueryCache = () => {
+  entries.forEach((entry) => {
+    entry.promise = null;
+    setState(entry, EMPTY_STATE);
+  });
+};
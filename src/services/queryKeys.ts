@@ -0,0 +1,13 @@
+import type { QueryKey } from './queryCache';
+import type { TagType } from '../types/tag';
+
+/**
+ * Query cache keys for apiClient reads
+ * Member data lives under `['members', ...]` and tag data under `['tags', ...]`
+ * so each can be invalidated as a group.
+ */
+export const queryKeys = {
+  me: ['members', 'me'] as QueryKey,
+  memberTags: (memberUuid: string): QueryKey => ['members', memberUuid, 'tags'],
+  popularTags: (tagType: TagType | undefined): QueryKey => ['tags', 'popular', tagType ?? null],
+};
@@ -0,0 +1,49 @@
+import type { TagAutocompleteResult, TagType } from '../types/tag';
+import { isSameTagName } from './tagName';
+
+export const RECENT_TAGS_LIMIT = 5;
+
+const RECENT_KEY_PREFIX = 'recentTags:';
+
+const storageKey = (memberUuid: string, tagType: TagType): string =>
+  `${RECENT_KEY_PREFIX}${memberUuid}:${tagType}`;
+
+const isTagResult = (value: unknown): value is TagAutocompleteResult =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as TagAutocompleteResult).name === 'string' &&
+  typeof (value as TagAutocompleteResult).usageCount === 'number';
+
+/**
+ * Load the tags a member picked most recently for a tag type
+ * @returns Most recent first (empty if none stored or unreadable)
+ */
+export const loadRecentTags = (memberUuid: string, tagType: TagType): TagAutocompleteResult[] => {
+  const raw = localStorage.getItem(storageKey(memberUuid, tagType));
+  if (!raw) return [];
+
+  try {
+    const tags: unknown = JSON.parse(raw);
+    return Array.isArray(tags) ? tags.filter(isTagResult).slice(0, RECENT_TAGS_LIMIT) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Move a tag to the front of the member's recent tags for its type
+ */
+export const addRecentTag = (
+  memberUuid: string,
+  tagType: TagType,
+  tag: TagAutocompleteResult
+) => {
+  const recent = loadRecentTags(memberUuid, tagType).filter(
+    (item) => !isSameTagName(item.name, tag.name)
+  );
+  const next = [{ name: tag.name, usageCount: tag.usageCount }, ...recent].slice(
+    0,
+    RECENT_TAGS_LIMIT
+  );
+  localStorage.setItem(storageKey(memberUuid, tagType), JSON.stringify(next));
+};
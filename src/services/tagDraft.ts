@@ -0,0 +1,62 @@
+import type { Channel } from '../types/tag';
+
+export interface TagDraft {
+  customTags: string[];
+  categoryTags: string[];
+  blockedChannels: Channel[];
+  favoriteChannels: Channel[];
+  /** When the draft was last written (epoch ms) */
+  savedAt: number;
+}
+
+const DRAFT_KEY_PREFIX = 'tagsDraft:';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isChannelArray = (value: unknown): value is Channel[] =>
+  Array.isArray(value) &&
+  value.every(
+    (item) => typeof item?.channelId === 'string' && typeof item?.channelName === 'string'
+  );
+
+/**
+ * Load the unsaved tag edits stored for a member
+ * @returns The draft, or null if there is none (or it is unreadable)
+ */
+export const loadTagDraft = (memberUuid: string): TagDraft | null => {
+  const raw = localStorage.getItem(`${DRAFT_KEY_PREFIX}${memberUuid}`);
+  if (!raw) return null;
+
+  try {
+    const draft = JSON.parse(raw) as Partial<TagDraft>;
+    if (!isStringArray(draft.customTags) || !isStringArray(draft.categoryTags)) {
+      return null;
+    }
+    return {
+      customTags: draft.customTags,
+      categoryTags: draft.categoryTags,
+      // 채널 목록이 생기기 전에 저장된 임시 저장본에는 없음
+      blockedChannels: isChannelArray(draft.blockedChannels) ? draft.blockedChannels : [],
+      favoriteChannels: isChannelArray(draft.favoriteChannels) ? draft.favoriteChannels : [],
+      savedAt: typeof draft.savedAt === 'number' ? draft.savedAt : 0,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Store unsaved tag edits for a member
+ */
+export const saveTagDraft = (
+  memberUuid: string,
+  draft: Omit<TagDraft, 'savedAt'>
+) => {
+  const value: TagDraft = { ...draft, savedAt: Date.now() };
+  localStorage.setItem(`${DRAFT_KEY_PREFIX}${memberUuid}`, JSON.stringify(value));
+};
+
+export const clearTagDraft = (memberUuid: string) => {
+  localStorage.removeItem(`${DRAFT_KEY_PREFIX}${memberUuid}`);
+};
@@ -0,0 +1,39 @@
+export const TAG_NAME_MAX_LENGTH = 20;
+
+// 한글, 영문, 숫자, 공백과 일부 기호만 허용
+const ALLOWED_TAG_NAME = /^[\p{Script=Hangul}A-Za-z0-9 _\-.+#&]+$/u;
+
+/**
+ * Normalize a user-typed tag name: Unicode NFC, trimmed, inner whitespace
+ * collapsed to single spaces, Latin letters upper-cased (e.g. " lol  kr" → "LOL KR")
+ */
+export const normalizeTagName = (raw: string): string =>
+  raw.normalize('NFC').trim().replace(/\s+/g, ' ').toUpperCase();
+
+/**
+ * Compare tag names the way the server does (case-insensitive, normalized)
+ */
+export const isSameTagName = (a: string, b: string): boolean =>
+  normalizeTagName(a) === normalizeTagName(b);
+
+/**
+ * Validate a new tag name
+ * @param name - Normalized tag name
+ * @param existingTags - Tags the user already has
+ * @returns Error message, or null if the name can be created
+ */
+export const validateTagName = (name: string, existingTags: string[] = []): string | null => {
+  if (!name) {
+    return 'Enter a tag name';
+  }
+  if (name.length > TAG_NAME_MAX_LENGTH) {
+    return `Tags can be at most ${TAG_NAME_MAX_LENGTH} characters`;
+  }
+  if (!ALLOWED_TAG_NAME.test(name)) {
+    return 'Use only Korean, letters, numbers, spaces and _ - . + # &';
+  }
+  if (existingTags.some((tag) => isSameTagName(tag, name))) {
+    return `"${name}" is already in your list`;
+  }
+  return null;
+};
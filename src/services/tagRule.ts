@@ -0,0 +1,322 @@
+import { isSameTagName } from './tagName';
+import type { TagRuleExpression, TagRuleTerm } from '../types/rule';
+import type { TagType } from '../types/tag';
+
+export const MAX_TAG_RULES = 10;
+export const TAG_RULE_NAME_MAX_LENGTH = 30;
+export const TAG_RULE_MAX_TERMS = 20;
+
+export type TagRuleParseResult =
+  | { ok: true; expression: TagRuleExpression }
+  | { ok: false; error: string; /** Character offset of the problem */ position: number };
+
+const FIELD_TAG_TYPES: Record<string, TagType> = {
+  tag: 'CUSTOM',
+  category: 'CATEGORY',
+};
+
+const TAG_TYPE_FIELDS: Record<TagType, string> = {
+  CUSTOM: 'tag',
+  CATEGORY: 'category',
+};
+
+const KEYWORDS = ['AND', 'OR', 'NOT'];
+
+// 결합 우선순위: OR < AND < NOT < 단일 조건
+const PRECEDENCE = { OR: 1, AND: 2, NOT: 3, TAG: 4 } as const;
+
+type Token =
+  | { type: 'word' | 'string'; value: string; position: number }
+  | { type: '(' | ')' | '=' | 'end'; position: number };
+
+class RuleSyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'RuleSyntaxError';
+    this.position = position;
+  }
+}
+
+const isKeyword = (word: string, keyword?: string): boolean =>
+  keyword ? word.toUpperCase() === keyword : KEYWORDS.includes(word.toUpperCase());
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')' || char === '=') {
+      tokens.push({ type: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        // \" 와 \\ 이스케이프
+        if (text[i] === '\\' && i + 1 < text.length) i++;
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) {
+        throw new RuleSyntaxError('Missing closing quote', start);
+      }
+      tokens.push({ type: 'string', value, position: start });
+      i++;
+    } else {
+      const start = i;
+      while (i < text.length && !/[\s()="]/.test(text[i])) i++;
+      tokens.push({ type: 'word', value: text.slice(start, i), position: start });
+    }
+  }
+
+  tokens.push({ type: 'end', position: text.length });
+  return tokens;
+};
+
+const combine = (
+  kind: 'AND' | 'OR',
+  operands: TagRuleExpression[]
+): TagRuleExpression =>
+  operands.length === 1
+    ? operands[0]
+    : {
+        kind,
+        // 같은 연산자는 평탄화 (a AND (b AND c) → a AND b AND c)
+        operands: operands.flatMap((operand) =>
+          operand.kind === kind ? operand.operands : [operand]
+        ),
+      };
+
+/**
+ * Recursive-descent parser
+ *   or      := and ("OR" and)*
+ *   and     := unary ("AND" unary)*
+ *   unary   := "NOT" unary | primary
+ *   primary := "(" or ")" | field "=" value
+ *   value   := "quoted" | word+ (up to the next keyword or parenthesis)
+ */
+const parseTokens = (tokens: Token[]): TagRuleExpression => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const isWord = (keyword: string) => {
+    const token = peek();
+    return token.type === 'word' && isKeyword(token.value, keyword);
+  };
+
+  const parseOr = (): TagRuleExpression => {
+    const operands = [parseAnd()];
+    while (isWord('OR')) {
+      index++;
+      operands.push(parseAnd());
+    }
+    return combine('OR', operands);
+  };
+
+  const parseAnd = (): TagRuleExpression => {
+    const operands = [parseUnary()];
+    while (isWord('AND')) {
+      index++;
+      operands.push(parseUnary());
+    }
+    return combine('AND', operands);
+  };
+
+  const parseUnary = (): TagRuleExpression => {
+    if (isWord('NOT')) {
+      index++;
+      return { kind: 'NOT', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): TagRuleExpression => {
+    const token = peek();
+    if (token.type === '(') {
+      index++;
+      const expression = parseOr();
+      if (peek().type !== ')') {
+        throw new RuleSyntaxError('Missing closing parenthesis', peek().position);
+      }
+      index++;
+      return expression;
+    }
+    if (token.type === 'end') {
+      throw new RuleSyntaxError('Expected a condition such as tag = LOL', token.position);
+    }
+    if (token.type !== 'word' || isKeyword(token.value)) {
+      throw new RuleSyntaxError('Expected "tag" or "category"', token.position);
+    }
+
+    const tagType = FIELD_TAG_TYPES[token.value.toLowerCase()];
+    if (!tagType) {
+      throw new RuleSyntaxError(
+        `Unknown field "${token.value}" (use tag or category)`,
+        token.position
+      );
+    }
+    index++;
+
+    if (peek().type !== '=') {
+      throw new RuleSyntaxError('Expected "=" after the field name', peek().position);
+    }
+    index++;
+
+    return { kind: 'TAG', tagType, name: parseValue() };
+  };
+
+  const parseValue = (): string => {
+    const token = peek();
+    if (token.type === 'string') {
+      index++;
+      if (!token.value.trim()) {
+        throw new RuleSyntaxError('Tag name is empty', token.position);
+      }
+      return token.value.trim();
+    }
+
+    // 따옴표 없는 값은 다음 키워드/괄호 전까지의 단어들 ("League of Legends")
+    const words: string[] = [];
+    let current = peek();
+    while (current.type === 'word' && !isKeyword(current.value)) {
+      words.push(current.value);
+      index++;
+      current = peek();
+    }
+    if (words.length === 0) {
+      throw new RuleSyntaxError('Expected a tag name after "="', token.position);
+    }
+    return words.join(' ');
+  };
+
+  const expression = parseOr();
+  if (peek().type !== 'end') {
+    const token = peek();
+    throw new RuleSyntaxError(
+      token.type === ')' ? 'Unexpected closing parenthesis' : 'Expected AND, OR or the end of the rule',
+      token.position
+    );
+  }
+  return expression;
+};
+
+/**
+ * Parse the text form of a rule
+ * Keywords and field names are case-insensitive; values with keywords,
+ * parentheses or quotes in them must be quoted.
+ */
+export const parseTagRule = (text: string): TagRuleParseResult => {
+  try {
+    const expression = parseTokens(tokenize(text));
+    const termCount = collectRuleTerms(expression).length;
+    if (termCount > TAG_RULE_MAX_TERMS) {
+      return {
+        ok: false,
+        error: `Rules can have at most ${TAG_RULE_MAX_TERMS} conditions`,
+        position: 0,
+      };
+    }
+    return { ok: true, expression };
+  } catch (error) {
+    if (error instanceof RuleSyntaxError) {
+      return { ok: false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+};
+
+const formatValue = (name: string): string => {
+  const needsQuotes =
+    /[()="\\]/.test(name) ||
+    name !== name.trim() ||
+    /\s{2,}/.test(name) ||
+    name.split(/\s+/).some((word) => isKeyword(word));
+  return needsQuotes ? `"${name.replace(/["\\]/g, '\\$&')}"` : name;
+};
+
+/**
+ * Text form of a rule, with parentheses only where precedence needs them
+ * `parseTagRule(serializeTagRule(expression))` gives back the same expression.
+ */
+export const serializeTagRule = (
+  expression: TagRuleExpression,
+  parentPrecedence = 0
+): string => {
+  const precedence = PRECEDENCE[expression.kind];
+  let text: string;
+
+  switch (expression.kind) {
+    case 'TAG':
+      return `${TAG_TYPE_FIELDS[expression.tagType]} = ${formatValue(expression.name)}`;
+    case 'NOT':
+      text = `NOT ${serializeTagRule(expression.operand, precedence)}`;
+      break;
+    case 'AND':
+    case 'OR':
+      // 같은 우선순위의 자식도 괄호로 감싸 a AND (b AND c) 구조를 보존
+      text = expression.operands
+        .map((operand) => serializeTagRule(operand, precedence + 1))
+        .join(` ${expression.kind} `);
+      break;
+  }
+
+  return precedence < parentPrecedence ? `(${text})` : text;
+};
+
+/**
+ * Join two expressions with AND/OR (used by the rule builder to append a condition)
+ */
+export const combineTagRules = (
+  kind: 'AND' | 'OR',
+  left: TagRuleExpression,
+  right: TagRuleExpression
+): TagRuleExpression => combine(kind, [left, right]);
+
+/**
+ * Every tag/category condition in an expression, in order, without duplicates
+ */
+export const collectRuleTerms = (expression: TagRuleExpression): TagRuleTerm[] => {
+  const terms: TagRuleTerm[] = [];
+  const visit = (node: TagRuleExpression) => {
+    switch (node.kind) {
+      case 'TAG':
+        if (
+          !terms.some((term) => term.tagType === node.tagType && isSameTagName(term.name, node.name))
+        ) {
+          terms.push(node);
+        }
+        break;
+      case 'NOT':
+        visit(node.operand);
+        break;
+      default:
+        node.operands.forEach(visit);
+    }
+  };
+  visit(expression);
+  return terms;
+};
+
+/**
+ * Validate a rule's name
+ * @param name - Trimmed rule name
+ * @param otherNames - Names of the member's other rules
+ * @returns Error message, or null if the name is valid
+ */
+export const validateRuleName = (name: string, otherNames: string[] = []): string | null => {
+  if (!name) {
+    return 'Enter a rule name';
+  }
+  if (name.length > TAG_RULE_NAME_MAX_LENGTH) {
+    return `Rule names can be at most ${TAG_RULE_NAME_MAX_LENGTH} characters`;
+  }
+  if (otherNames.some((other) => other.toLowerCase() === name.toLowerCase())) {
+    return `A rule named "${name}" already exists`;
+  }
+  return null;
+};
@@ -0,0 +1,140 @@
+// 한글 음절 분해 (유니코드 Hangul Syllables 블록: 초성 19 × 중성 21 × 종성 28)
+const SYLLABLE_BASE = 0xac00;
+const SYLLABLE_END = 0xd7a3;
+const JUNGSUNG_COUNT = 21;
+const JONGSUNG_COUNT = 28;
+
+const CHOSUNG = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ';
+const JUNGSUNG = 'ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ';
+const JONGSUNG = ['', ...'ㄱㄲㄳㄴㄵㄶㄷㄹㄺㄻㄼㄽㄾㄿㅀㅁㅂㅄㅅㅆㅇㅈㅊㅋㅌㅍㅎ'];
+
+// 겹자음/겹모음은 입력 순서대로 쪼갬 (예: "달" 입력 중에도 "닭"과 매칭)
+const COMPOUND_JAMO: Record<string, string> = {
+  ㄳ: 'ㄱㅅ', ㄵ: 'ㄴㅈ', ㄶ: 'ㄴㅎ', ㄺ: 'ㄹㄱ', ㄻ: 'ㄹㅁ', ㄼ: 'ㄹㅂ', ㄽ: 'ㄹㅅ',
+  ㄾ: 'ㄹㅌ', ㄿ: 'ㄹㅍ', ㅀ: 'ㄹㅎ', ㅄ: 'ㅂㅅ',
+  ㅘ: 'ㅗㅏ', ㅙ: 'ㅗㅐ', ㅚ: 'ㅗㅣ', ㅝ: 'ㅜㅓ', ㅞ: 'ㅜㅔ', ㅟ: 'ㅜㅣ', ㅢ: 'ㅡㅣ',
+};
+
+const JAMO = /[ㄱ-ㆎ]/;
+const CHOSUNG_QUERY = /^[ㄱ-ㅎ\s]+$/;
+
+/** Range of matched characters in a tag name (code point indices, end exclusive) */
+export interface TagNameMatch {
+  start: number;
+  end: number;
+}
+
+const isSyllable = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return code >= SYLLABLE_BASE && code <= SYLLABLE_END;
+};
+
+/**
+ * Fold full-width ASCII (e.g. "ＬＯＬ") and the ideographic space to their
+ * half-width forms and compose Hangul to NFC
+ */
+const foldWidth = (text: string): string =>
+  text
+    .normalize('NFC')
+    .replace(/[！-～]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/\u3000/g, ' ');
+
+const splitJamo = (jamo: string): string => COMPOUND_JAMO[jamo] ?? jamo;
+
+const decomposeChar = (char: string): string => {
+  if (!isSyllable(char)) return splitJamo(char);
+
+  const offset = char.charCodeAt(0) - SYLLABLE_BASE;
+  const cho = CHOSUNG[Math.floor(offset / (JUNGSUNG_COUNT * JONGSUNG_COUNT))];
+  const jung = JUNGSUNG[Math.floor(offset / JONGSUNG_COUNT) % JUNGSUNG_COUNT];
+  const jong = JONGSUNG[offset % JONGSUNG_COUNT];
+  return cho + splitJamo(jung) + splitJamo(jong);
+};
+
+const chosungOf = (char: string): string =>
+  isSyllable(char)
+    ? CHOSUNG[Math.floor((char.charCodeAt(0) - SYLLABLE_BASE) / (JUNGSUNG_COUNT * JONGSUNG_COUNT))]
+    : char;
+
+const toSearchChars = (text: string): string[] => Array.from(foldWidth(text).toLowerCase());
+
+/**
+ * Match a search term against a tag name, ignoring case and full-/half-width
+ * differences
+ * - A term made only of consonants matches initial consonants (초성), e.g.
+ *   "ㄹㅋ" → "랭크"; spaces in the name are skipped
+ * - Otherwise the term matches jamo by jamo, so a syllable still being
+ *   composed matches, e.g. "랭ㅋ" or "달" → "닭"
+ * @returns The earliest matching range, or null if the name does not match
+ */
+export const matchTagName = (name: string, term: string): TagNameMatch | null => {
+  const query = foldWidth(term).toLowerCase().trim();
+  if (!query) return null;
+  const chars = toSearchChars(name);
+
+  if (CHOSUNG_QUERY.test(query)) {
+    const consonants = Array.from(query.replace(/\s+/g, ''));
+    // 공백을 제외한 글자들의 초성과 원래 위치
+    const positions = chars.flatMap((char, index) => (/\s/.test(char) ? [] : [index]));
+    const initials = positions.map((index) => chosungOf(chars[index]));
+
+    for (let i = 0; i + consonants.length <= initials.length; i++) {
+      if (consonants.every((consonant, k) => initials[i + k] === consonant)) {
+        return { start: positions[i], end: positions[i + consonants.length - 1] + 1 };
+      }
+    }
+    return null;
+  }
+
+  const queryJamo = Array.from(query).map(decomposeChar).join('');
+  const charJamo = chars.map(decomposeChar);
+  const nameJamo = charJamo.join('');
+  // 각 글자의 자모 문자열 내 시작 위치
+  const offsets: number[] = [];
+  charJamo.reduce((offset, jamo) => {
+    offsets.push(offset);
+    return offset + jamo.length;
+  }, 0);
+
+  for (let i = 0; i < chars.length; i++) {
+    if (!nameJamo.startsWith(queryJamo, offsets[i])) continue;
+
+    const matchEnd = offsets[i] + queryJamo.length;
+    let end = i + 1;
+    while (end < chars.length && offsets[end] < matchEnd) end++;
+    return { start: i, end };
+  }
+  return null;
+};
+
+/**
+ * Split a search term into the part the server can match as a plain prefix
+ * The server only does prefix matching, so initial consonants (searched over
+ * all tags), stray jamo after the first syllable and, while an IME composition
+ * is in progress, the syllable being composed are left to `matchTagName`.
+ * Anything else is sent as typed.
+ * @param composing - Whether the last syllable is still being composed
+ * @returns `prefix` to send to the server; `exact` is false when its results
+ * still need to be filtered on the client
+ */
+export const toServerQuery = (
+  term: string,
+  composing = false
+): { prefix: string; exact: boolean } => {
+  const folded = foldWidth(term).trim();
+  if (CHOSUNG_QUERY.test(folded)) {
+    return { prefix: '', exact: false };
+  }
+
+  const chars = Array.from(folded);
+
+  const jamoIndex = chars.findIndex((char) => JAMO.test(char));
+  if (jamoIndex > 0) {
+    return { prefix: chars.slice(0, jamoIndex).join(''), exact: false };
+  }
+  // 조합 중인 마지막 음절만 빼고 요청 (한 글자뿐이면 그대로 요청)
+  if (jamoIndex < 0 && composing && chars.length > 1 && isSyllable(chars[chars.length - 1])) {
+    return { prefix: chars.slice(0, -1).join(''), exact: false };
+  }
+  return { prefix: folded, exact: true };
+};
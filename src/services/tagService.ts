@@ -1,37 +1,79 @@
-import api from './api';
-import type { TagAutocompleteResult, TagAutocompleteParams } from '../types/tag';
-
-interface ApiResponse<T> {
-  success: boolean;
-  data: T | null;
-  error: {
-    code: string;
-    message: string;
-  } | null;
-}
+import { fetchTagSuggestions, fetchTopTags } from './apiClient';
+import { isSameTagName } from './tagName';
+import { toServerQuery } from './tagSearch';
+import { getCachedSuggestions, setCachedSuggestions } from './tagSuggestionCache';
+import type { TagAutocompleteResult, TagAutocompleteParams, TagType } from '../types/tag';
 
 /**
  * Fetch tag autocomplete suggestions
- * @param params - Autocomplete parameters (prefix, tagType, limit)
+ * @param params - Autocomplete parameters (prefix, tagType, limit, offset)
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with autocomplete results
  */
 export const fetchTagAutocomplete = async (
-  params: TagAutocompleteParams
+  params: TagAutocompleteParams,
+  signal?: AbortSignal
 ): Promise<TagAutocompleteResult[]> => {
-  const { prefix, tagType, limit = 10 } = params;
+  return fetchTagSuggestions(params, signal);
+};
 
-  const queryParams = new URLSearchParams({
-    prefix,
-    limit: limit.toString(),
-  });
+/**
+ * Fetch the most used tags, for browsing when nothing has been typed yet
+ * @param params - tagType (optional) and limit (default 5)
+ * @returns Promise with the top tags by usage count across all members,
+ * highest first
+ */
+export const fetchPopularTags = async (
+  params: { tagType?: TagType; limit?: number } = {}
+): Promise<TagAutocompleteResult[]> => {
+  const { tagType, limit = 5 } = params;
+  return fetchTopTags({ tagType, limit });
+};
 
-  if (tagType) {
-    queryParams.append('tagType', tagType);
-  }
+// 이름 조회 시 한 번에 받는 개수 (prefix가 같은 태그가 많으면 다음 페이지로 이어서 조회)
+const LOOKUP_PAGE_SIZE = 50;
 
-  const response = await api.get<ApiResponse<TagAutocompleteResult[]>>(
-    `/api/v1/tags/suggestions?${queryParams.toString()}`
-  );
+/**
+ * Look up a tag on the server by name (ignoring case)
+ * The autocomplete endpoint only matches prefixes, so pages of tags sharing
+ * the name as a prefix are read until the name is found or they run out.
+ * @param name - Tag name
+ * @param tagType - Type to look in
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the tag as the server spells it, or null if there is none
+ */
+export const findTag = async (
+  name: string,
+  tagType: TagType,
+  signal?: AbortSignal
+): Promise<TagAutocompleteResult | null> => {
+  const { prefix } = toServerQuery(name);
+  for (let offset = 0; ; offset += LOOKUP_PAGE_SIZE) {
+    const params: TagAutocompleteParams = { prefix, tagType, limit: LOOKUP_PAGE_SIZE, offset };
+    // 캐시는 첫 페이지만 보관
+    let results = offset === 0 ? getCachedSuggestions(params) : undefined;
+    if (!results) {
+      results = await fetchTagAutocomplete(params, signal);
+      if (offset === 0) {
+        setCachedSuggestions(params, results);
+      }
+    }
+
+    const match = results.find((tag) => isSameTagName(tag.name, name));
+    if (match) return match;
+    if (results.length < LOOKUP_PAGE_SIZE) return null;
+  }
+};
 
-  return response.data.data || [];
-};
\ No newline at end of file
+/**
+ * Check whether a tag exists on the server (same name, ignoring case)
+ * @param name - Tag name
+ * @param tagType - Type to look in
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with true if a tag with this name exists
+ */
+export const tagExists = async (
+  name: string,
+  tagType: TagType,
+  signal?: AbortSignal
+): Promise<boolean> => (await findTag(name, tagType, signal)) !== null;
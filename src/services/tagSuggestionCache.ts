@@ -0,0 +1,90 @@
+import type { TagAutocompleteParams, TagAutocompleteResult, TagType } from '../types/tag';
+
+interface CacheEntry {
+  results: TagAutocompleteResult[];
+  /** When the results were fetched (epoch ms) */
+  fetchedAt: number;
+}
+
+export const SUGGESTION_CACHE_SIZE = 100;
+export const SUGGESTION_CACHE_TTL = 5 * 60 * 1000;
+
+// Map은 삽입 순서를 유지하므로 가장 앞의 항목이 가장 오래 쓰이지 않은 항목
+const entries = new Map<string, CacheEntry>();
+
+// 서버의 prefix 검색은 대소문자를 구분하지 않음
+const normalizePrefix = (prefix: string): string => prefix.trim().toLowerCase();
+
+const toKey = (prefix: string, tagType: TagType | undefined, limit: number): string =>
+  JSON.stringify([tagType ?? null, limit, prefix]);
+
+const isFresh = (entry: CacheEntry): boolean =>
+  Date.now() - entry.fetchedAt < SUGGESTION_CACHE_TTL;
+
+const touch = (key: string, entry: CacheEntry) => {
+  entries.delete(key);
+  entries.set(key, entry);
+};
+
+/**
+ * Look up cached suggestions
+ * An exact hit is returned as is. Otherwise the longest cached shorter prefix
+ * is used when its result was complete (fewer than `limit` matches), since the
+ * longer prefix can only match a subset of it.
+ * @param params - Autocomplete parameters (prefix, tagType, limit)
+ * @returns Cached results, or undefined on a miss
+ */
+export const getCachedSuggestions = (
+  params: TagAutocompleteParams
+): TagAutocompleteResult[] | undefined => {
+  const { tagType, limit = 10 } = params;
+  const prefix = normalizePrefix(params.prefix);
+
+  for (let length = prefix.length; length >= 0; length--) {
+    const key = toKey(prefix.slice(0, length), tagType, limit);
+    const entry = entries.get(key);
+    if (!entry) continue;
+
+    if (!isFresh(entry)) {
+      entries.delete(key);
+      continue;
+    }
+    if (length === prefix.length) {
+      touch(key, entry);
+      return entry.results;
+    }
+    if (entry.results.length < limit) {
+      touch(key, entry);
+      return entry.results.filter((tag) => tag.name.toLowerCase().startsWith(prefix));
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Store suggestions, evicting the least recently used entry when full
+ */
+export const setCachedSuggestions = (
+  params: TagAutocompleteParams,
+  results: TagAutocompleteResult[]
+) => {
+  const { tagType, limit = 10 } = params;
+  const prefix = normalizePrefix(params.prefix);
+  const key = toKey(prefix, tagType, limit);
+
+  entries.delete(key);
+  entries.set(key, { results, fetchedAt: Date.now() });
+
+  while (entries.size > SUGGESTION_CACHE_SIZE) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+};
+
+/**
+ * Drop every cached suggestion (e.g. after saving tags, which changes usage counts)
+ */
+export const clearSuggestionCache = () => {
+  entries.clear();
+};
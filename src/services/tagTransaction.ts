@@ -0,0 +1,232 @@
+import {
+  addMemberChannel,
+  addMemberTag,
+  getErrorMessage,
+  removeMemberChannel,
+  removeMemberTag,
+  updateNotification,
+} from './apiClient';
+import type {
+  Channel,
+  ChannelChange,
+  ChannelChangeResult,
+  ChannelListType,
+  TagChange,
+  TagChangeOp,
+  TagChangeResult,
+  TagChangeStatus,
+  TagType,
+} from '../types/tag';
+
+export interface TagTransactionOptions {
+  /** Turn notifications on as part of the save (reverted if the save fails) */
+  enableNotification?: boolean;
+  /** Blocked/favorite channel changes, saved after the tag changes */
+  channelChanges?: ChannelChange[];
+}
+
+export interface TagTransactionResult {
+  ok: boolean;
+  results: TagChangeResult[];
+  channelResults: ChannelChangeResult[];
+  /** Notification setting on the server after the save, if it was touched */
+  notificationEnabled?: boolean;
+  /** Why notifications could not be turned on (no change was sent then) */
+  notificationError?: string;
+}
+
+/**
+ * Describe the difference between two tag lists as add/remove changes
+ */
+export const computeTagChanges = (
+  original: string[],
+  current: string[],
+  tagType: TagType
+): TagChange[] => [
+  ...original
+    .filter((tagName) => !current.includes(tagName))
+    .map((tagName): TagChange => ({ op: 'REMOVE', tagName, tagType })),
+  ...current
+    .filter((tagName) => !original.includes(tagName))
+    .map((tagName): TagChange => ({ op: 'ADD', tagName, tagType })),
+];
+
+/**
+ * Apply saved changes to a tag list
+ * Only changes that ended up on the server (`applied`, `rollbackFailed`) count.
+ */
+export const applyTagResults = (
+  tags: string[],
+  results: TagChangeResult[],
+  tagType: TagType
+): string[] =>
+  results
+    .filter(
+      (result) =>
+        result.tagType === tagType &&
+        (result.status === 'applied' || result.status === 'rollbackFailed')
+    )
+    .reduce(
+      (list, { op, tagName }) =>
+        op === 'ADD'
+          ? list.includes(tagName)
+            ? list
+            : [...list, tagName]
+          : list.filter((tag) => tag !== tagName),
+      tags
+    );
+
+/**
+ * Describe the difference between two channel lists as add/remove changes
+ */
+export const computeChannelChanges = (
+  original: Channel[],
+  current: Channel[],
+  listType: ChannelListType
+): ChannelChange[] => {
+  const has = (list: Channel[], channel: Channel) =>
+    list.some((item) => item.channelId === channel.channelId);
+  return [
+    ...original
+      .filter((channel) => !has(current, channel))
+      .map((channel): ChannelChange => ({ op: 'REMOVE', channel, listType })),
+    ...current
+      .filter((channel) => !has(original, channel))
+      .map((channel): ChannelChange => ({ op: 'ADD', channel, listType })),
+  ];
+};
+
+/**
+ * Apply saved changes to a channel list (see `applyTagResults`)
+ */
+export const applyChannelResults = (
+  channels: Channel[],
+  results: ChannelChangeResult[],
+  listType: ChannelListType
+): Channel[] =>
+  results
+    .filter(
+      (result) =>
+        result.listType === listType &&
+        (result.status === 'applied' || result.status === 'rollbackFailed')
+    )
+    .reduce(
+      (list, { op, channel }) =>
+        op === 'ADD'
+          ? list.some((item) => item.channelId === channel.channelId)
+            ? list
+            : [...list, channel]
+          : list.filter((item) => item.channelId !== channel.channelId),
+      channels
+    );
+
+const invertOp = (op: TagChangeOp): TagChangeOp => (op === 'ADD' ? 'REMOVE' : 'ADD');
+
+const sendChange = (memberUuid: string, op: TagChangeOp, { tagName, tagType }: TagChange) =>
+  op === 'ADD'
+    ? addMemberTag(memberUuid, { name: tagName, tagType })
+    : removeMemberTag(memberUuid, { name: tagName, tagType });
+
+const sendChannelChange = (
+  memberUuid: string,
+  op: TagChangeOp,
+  { channel, listType }: ChannelChange
+) =>
+  op === 'ADD'
+    ? addMemberChannel(memberUuid, { channelId: channel.channelId, listType })
+    : removeMemberChannel(memberUuid, { channelId: channel.channelId, listType });
+
+// 태그/채널 변경을 같은 순서로 보내고 되돌리기 위한 단계
+interface Step {
+  change: TagChange | ChannelChange;
+  send: (op: TagChangeOp) => Promise<void>;
+}
+
+type StepOutcome = { status: TagChangeStatus; error?: string };
+
+/**
+ * Save tag (and channel) changes as one all-or-nothing operation
+ * Changes are sent one at a time. If one fails, the changes already saved are
+ * undone in reverse order (and the notification setting restored), so the
+ * server ends up where it started. Every change gets its own result.
+ */
+export const applyTagChanges = async (
+  memberUuid: string,
+  changes: TagChange[],
+  options: TagTransactionOptions = {}
+): Promise<TagTransactionResult> => {
+  const { channelChanges = [] } = options;
+  const steps: Step[] = [
+    ...changes.map((change) => ({
+      change,
+      send: (op: TagChangeOp) => sendChange(memberUuid, op, change),
+    })),
+    ...channelChanges.map((change) => ({
+      change,
+      send: (op: TagChangeOp) => sendChannelChange(memberUuid, op, change),
+    })),
+  ];
+  const outcomes: StepOutcome[] = steps.map(() => ({ status: 'skipped' }));
+  const toResult = (notificationEnabled?: boolean): Omit<TagTransactionResult, 'ok'> => ({
+    results: changes.map((change, i) => ({ ...change, ...outcomes[i] })),
+    channelResults: channelChanges.map((change, i) => ({
+      ...change,
+      ...outcomes[changes.length + i],
+    })),
+    notificationEnabled,
+  });
+  let notificationEnabled: boolean | undefined;
+
+  if (options.enableNotification) {
+    try {
+      notificationEnabled = await updateNotification(true);
+    } catch (error) {
+      console.error('Failed to enable notifications:', error);
+      return {
+        ok: false,
+        ...toResult(),
+        notificationError: getErrorMessage(error, 'Failed to turn on notifications'),
+      };
+    }
+  }
+
+  let failedIndex = -1;
+  for (let i = 0; i < steps.length; i++) {
+    try {
+      await steps[i].send(steps[i].change.op);
+      outcomes[i] = { status: 'applied' };
+    } catch (error) {
+      outcomes[i] = { status: 'failed', error: getErrorMessage(error, 'Failed to save') };
+      failedIndex = i;
+      break;
+    }
+  }
+
+  if (failedIndex === -1) {
+    return { ok: true, ...toResult(notificationEnabled) };
+  }
+
+  // 롤백: 이미 반영된 변경을 역순으로 되돌림
+  for (let i = failedIndex - 1; i >= 0; i--) {
+    try {
+      await steps[i].send(invertOp(steps[i].change.op));
+      outcomes[i] = { status: 'rolledBack' };
+    } catch (error) {
+      console.error('Failed to roll back change:', steps[i].change, error);
+      outcomes[i] = {
+        status: 'rollbackFailed',
+        error: getErrorMessage(error, 'Could not be undone'),
+      };
+    }
+  }
+
+  if (options.enableNotification && notificationEnabled !== undefined) {
+    try {
+      notificationEnabled = await updateNotification(false);
+    } catch (error) {
+      console.error('Failed to restore notification setting:', error);
+    }
+  }
+
+  return { ok: false, ...toResult(notificationEnabled) };
+};
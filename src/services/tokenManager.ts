@@ -0,0 +1,227 @@
+import type { TokenResponse } from '../types/auth';
+import { broadcastAuthEvent } from './authChannel';
+import { ApiError, reissueTokens } from './apiClient';
+
+const ACCESS_TOKEN_KEY = 'accessToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+// 액세스 토큰 만료 1분 전에 미리 갱신
+const ACCESS_TOKEN_RENEW_MARGIN_MS = 60 * 1000;
+// 리프레시 토큰 만료 1분 전에 로그아웃 처리
+const REFRESH_TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+// 백그라운드 갱신이 네트워크 오류 등으로 실패하면 5초부터 최대 5분까지 늘려가며 재시도
+const RENEWAL_RETRY_BASE_MS = 5 * 1000;
+const RENEWAL_RETRY_MAX_MS = 5 * 60 * 1000;
+// 여러 탭이 같은 리프레시 토큰으로 동시에 갱신하지 않도록 탭 간에 공유하는 잠금
+const RENEWAL_LOCK_NAME = 'chz-scout-token-renewal';
+
+type SessionExpiredListener = () => void;
+type TokensChangedListener = (tokens: TokenResponse) => void;
+
+// 진행 중인 토큰 갱신 요청 (동시에 발생한 401 요청들이 공유)
+let refreshPromise: Promise<string> | null = null;
+let renewalTimer: ReturnType<typeof setTimeout> | null = null;
+let renewalRetryCount = 0;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+const tokensChangedListeners = new Set<TokensChangedListener>();
+
+export const getAccessToken = (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const setTokens = ({ accessToken, refreshToken }: TokenResponse) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+  tokensChangedListeners.forEach((listener) => listener({ accessToken, refreshToken }));
+};
+
+export const clearTokens = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+/**
+ * Read the `exp` claim of a JWT
+ * @param token - Encoded JWT
+ * @returns Expiry as epoch milliseconds, or null if the token has no readable `exp`
+ */
+export const getTokenExpiry = (token: string | null): number | null => {
+  if (!token) return null;
+
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const { exp } = JSON.parse(atob(padded)) as { exp?: unknown };
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Expiry of the whole session (the refresh token)
+ * @returns Epoch milliseconds, or null if unknown
+ */
+export const getSessionExpiry = (): number | null => getTokenExpiry(getRefreshToken());
+
+/**
+ * Subscribe to session expiry (refresh token expired or reissue failed)
+ * @returns Unsubscribe function
+ */
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+/**
+ * Subscribe to token storage (login or reissue)
+ * @returns Unsubscribe function
+ */
+export const onTokensChanged = (listener: TokensChangedListener) => {
+  tokensChangedListeners.add(listener);
+  return () => {
+    tokensChangedListeners.delete(listener);
+  };
+};
+
+/**
+ * Clear the stored tokens and notify subscribers (and other tabs) that the
+ * session is over
+ */
+export const expireSession = () => {
+  stopTokenRenewal();
+  clearTokens();
+  broadcastAuthEvent({ type: 'logout' });
+  sessionExpiredListeners.forEach((listener) => listener());
+};
+
+const isRefreshTokenExpiring = (): boolean => {
+  const sessionExpiry = getSessionExpiry();
+  return sessionExpiry !== null && sessionExpiry - Date.now() <= REFRESH_TOKEN_EXPIRY_MARGIN_MS;
+};
+
+/**
+ * Whether a reissue failure means the refresh token itself was rejected
+ * (as opposed to a network error or a server failure worth retrying)
+ */
+export const isRefreshRejected = (error: unknown): boolean =>
+  error instanceof ApiError && error.status === 401;
+
+// 잠금을 지원하지 않는 브라우저에서는 탭 간 직렬화 없이 실행
+const withRenewalLock = async (task: () => Promise<string>): Promise<string> =>
+  'locks' in navigator ? await navigator.locks.request(RENEWAL_LOCK_NAME, task) : task();
+
+const reissueWithLock = (staleRefreshToken: string | null) =>
+  withRenewalLock(async () => {
+    // 잠금을 기다리는 동안 다른 탭이 이미 토큰을 교체했다면 그 토큰을 사용
+    const refreshToken = getRefreshToken();
+    const accessToken = getAccessToken();
+    if (refreshToken !== staleRefreshToken && accessToken) {
+      return accessToken;
+    }
+
+    try {
+      const tokens = await reissueTokens(refreshToken);
+      setTokens(tokens);
+      broadcastAuthEvent({ type: 'tokens' });
+      return tokens.accessToken;
+    } catch (error) {
+      // 요청 중에 다른 탭이 교체한 경우 (잠금 미지원 브라우저) 실패로 보지 않음
+      const latestAccessToken = getAccessToken();
+      if (getRefreshToken() !== refreshToken && latestAccessToken) {
+        return latestAccessToken;
+      }
+      throw error;
+    }
+  });
+
+/**
+ * Reissue the access token using the stored refresh token.
+ * Concurrent callers share a single in-flight reissue request, and open tabs
+ * take turns through a Web Lock: a tab that finds the refresh token already
+ * rotated by another tab uses that tab's tokens instead of reissuing, so the
+ * refresh token is rotated only once.
+ * @returns Promise with the new access token
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = reissueWithLock(getRefreshToken())
+      .then((accessToken) => {
+        scheduleTokenRenewal();
+        return accessToken;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+const renewInBackground = async () => {
+  if (isRefreshTokenExpiring()) {
+    expireSession();
+    return;
+  }
+
+  try {
+    await refreshAccessToken();
+    renewalRetryCount = 0;
+  } catch (error) {
+    console.error('Background token renewal failed:', error);
+    if (isRefreshRejected(error)) {
+      expireSession();
+      return;
+    }
+
+    // 일시적인 실패 (오프라인 등)는 로그아웃하지 않고 재시도
+    const delay = Math.min(RENEWAL_RETRY_BASE_MS * 2 ** renewalRetryCount, RENEWAL_RETRY_MAX_MS);
+    renewalRetryCount += 1;
+    stopTokenRenewal();
+    renewalTimer = setTimeout(renewInBackground, delay);
+  }
+};
+
+// 다른 탭이 그 사이 토큰을 교체해 만료 시각이 늦춰졌다면 다시 예약
+const expireIfSessionEnding = () => {
+  if (isRefreshTokenExpiring()) {
+    expireSession();
+  } else {
+    scheduleTokenRenewal();
+  }
+};
+
+/**
+ * Schedule a background reissue shortly before the access token expires.
+ * If the refresh token expires first, the session is ended instead.
+ */
+export const scheduleTokenRenewal = () => {
+  stopTokenRenewal();
+
+  const accessExpiry = getTokenExpiry(getAccessToken());
+  const sessionExpiry = getSessionExpiry();
+  if (accessExpiry === null && sessionExpiry === null) return;
+
+  const now = Date.now();
+  const renewAt = accessExpiry !== null ? accessExpiry - ACCESS_TOKEN_RENEW_MARGIN_MS : Infinity;
+  const expireAt = sessionExpiry !== null ? sessionExpiry - REFRESH_TOKEN_EXPIRY_MARGIN_MS : Infinity;
+
+  if (expireAt <= renewAt) {
+    renewalTimer = setTimeout(expireIfSessionEnding, Math.max(expireAt - now, 0));
+  } else {
+    renewalTimer = setTimeout(renewInBackground, Math.max(renewAt - now, 0));
+  }
+};
+
+export const stopTokenRenewal = () => {
+  if (renewalTimer) {
+    clearTimeout(renewalTimer);
+    renewalTimer = null;
+  }
+};
@@ -0,0 +1,13 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach, vi } from 'vitest';
+
+afterEach(() => {
+  cleanup();
+});
+
+// Testing Library의 waitFor는 전역 jest가 있을 때만 가짜 타이머를 직접 진행시킴
+// (vi.useFakeTimers() 중에도 waitFor가 멈추지 않도록 같은 API를 제공)
+Object.assign(globalThis, {
+  jest: { advanceTimersByTime: (ms: number) => vi.advanceTimersByTime(ms) },
+});
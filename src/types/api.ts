@@ -0,0 +1,10 @@
+export interface ApiErrorBody {
+  code: string;
+  message: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T | null;
+  error: ApiErrorBody | null;
+}
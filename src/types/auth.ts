@@ -1,7 +1,14 @@
+import type { DeliverySettings, QuietHours } from './notification';
+
 export interface User {
   uuid: string;
   discordId: string;
   nickname: string;
+  notificationEnabled?: boolean;
+  /** Null when the member never set quiet hours */
+  quietHours?: QuietHours | null;
+  /** Null when the member never changed delivery (alerts are instant) */
+  delivery?: DeliverySettings | null;
 }
 
 export interface TokenResponse {
@@ -9,21 +16,26 @@ export interface TokenResponse {
   refreshToken: string;
 }
 
-export interface ApiResponse<T> {
-  success: boolean;
-  data: T | null;
-  error: {
-    code: string;
-    message: string;
-  } | null;
+export interface AuthSession {
+  sessionId: string;
+  device: string;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
 }
 
 export interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: () => void;
+  /** Refresh token expiry (epoch ms), or null if unknown */
+  sessionExpiresAt: number | null;
+  /** True after another tab logged out, until the page acknowledges it */
+  sessionEndedElsewhere: boolean;
+  /** Start Discord login, returning to `returnTo` (default `/`) afterwards */
+  login: (returnTo?: string) => void;
   addBot: () => void;
-  logout: () => void;
+  logout: () => Promise<void>;
   refreshAuth: () => Promise<void>;
+  acknowledgeSessionEnd: () => void;
 }
\ No newline at end of file
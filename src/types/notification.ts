@@ -0,0 +1,38 @@
+/**
+ * Account-wide window during which alerts are held back
+ * `start`/`end` are "HH:mm" in `timeZone`; a window may span midnight
+ * (e.g. 23:00–08:00).
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  /** IANA time zone, e.g. "Asia/Seoul" */
+  timeZone: string;
+}
+
+export type TagAlertStatus = 'active' | 'muted' | 'snoozed';
+
+/**
+ * How alerts are delivered
+ * - INSTANT: one DM per stream as it goes live
+ * - HOURLY_DIGEST: one DM per hour listing the streams that went live
+ * - DAILY_DIGEST: one DM per day
+ */
+export type DeliveryMode = 'INSTANT' | 'HOURLY_DIGEST' | 'DAILY_DIGEST';
+
+export interface DeliverySettings {
+  mode: DeliveryMode;
+  /** "HH:mm" in `timeZone`; hourly digests only use the minutes */
+  deliveryTime: string;
+  /** IANA time zone, e.g. "Asia/Seoul" */
+  timeZone: string;
+}
+
+/** One stream listed in a digest preview */
+export interface DigestPreviewItem {
+  channelName: string;
+  title: string;
+  /** Tag or category the stream matched */
+  matchedTag: string;
+}
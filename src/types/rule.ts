@@ -0,0 +1,36 @@
+import type { TagType } from './tag';
+
+/**
+ * One condition of a rule: the stream has this tag (CUSTOM) or is in this
+ * category (CATEGORY)
+ */
+export type TagRuleTerm = {
+  kind: 'TAG';
+  tagType: TagType;
+  name: string;
+};
+
+/**
+ * Boolean expression over tags; AND/OR take two or more operands
+ * Text form: `category = League of Legends AND tag = 랭크 AND NOT tag = 다시보기`
+ */
+export type TagRuleExpression =
+  | TagRuleTerm
+  | { kind: 'NOT'; operand: TagRuleExpression }
+  | { kind: 'AND' | 'OR'; operands: TagRuleExpression[] };
+
+/**
+ * Named rule saved with the member's tags
+ * `expression` is stored in its text form.
+ */
+export type TagRule = {
+  id: string;
+  name: string;
+  expression: string;
+};
+
+export type TagRuleInput = Omit<TagRule, 'id'>;
+
+export type UpdateTagRulesRequest = {
+  rules: TagRuleInput[];
+};
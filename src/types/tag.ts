@@ -1,14 +1,41 @@
+import type { TagRule } from './rule';
+
 export type TagType = 'CATEGORY' | 'CUSTOM';
 
 export type MemberTag = {
   memberUuid: string;
   tagName: string;
   tagType: TagType;
+  /** Alerts for this tag are off until it is unmuted */
+  muted?: boolean;
+  /** Alerts for this tag are held back until this time (ISO 8601) */
+  snoozedUntil?: string | null;
+};
+
+/**
+ * - BLOCKED: never notify for this channel, even when its tags match
+ * - FAVORITE: always notify when this channel goes live, regardless of tags
+ */
+export type ChannelListType = 'BLOCKED' | 'FAVORITE';
+
+export type Channel = {
+  channelId: string;
+  channelName: string;
+  channelImageUrl?: string | null;
+};
+
+export type MemberChannel = Channel & {
+  memberUuid: string;
+  listType: ChannelListType;
 };
 
 export type MemberTagsResponse = {
   customTags: MemberTag[];
   categoryTags: MemberTag[];
+  /** Named AND/OR/NOT rules saved alongside the tag lists */
+  rules?: TagRule[];
+  blockedChannels?: MemberChannel[];
+  favoriteChannels?: MemberChannel[];
 };
 
 export type TagAutocompleteResult = {
@@ -16,13 +43,86 @@ export type TagAutocompleteResult = {
   usageCount: number;
 };
 
+/**
+ * Tag picked in TagAutocomplete; `isNew` marks a tag the user typed in
+ * that does not exist on the server yet
+ */
+export type TagSelection = TagAutocompleteResult & {
+  isNew?: boolean;
+};
+
+export type ChannelSearchResult = Channel & {
+  followerCount: number;
+};
+
+export type ChannelSearchParams = {
+  keyword: string;
+  limit?: number;
+};
+
 export type TagAutocompleteParams = {
   prefix: string;
   tagType?: TagType;
   limit?: number;
+  /** Number of matches to skip (offset pagination, default 0) */
+  offset?: number;
 };
 
 export type UpdateTagsRequest = {
   names: string[];
   tagType: TagType;
-};
\ No newline at end of file
+};
+
+export type TagDeltaRequest = {
+  name: string;
+  tagType: TagType;
+};
+
+export type ChannelDeltaRequest = {
+  channelId: string;
+  listType: ChannelListType;
+};
+
+export type TagChangeOp = 'ADD' | 'REMOVE';
+
+export type TagChange = {
+  op: TagChangeOp;
+  tagName: string;
+  tagType: TagType;
+};
+
+/**
+ * Outcome of one change in a save
+ * - applied: saved on the server
+ * - failed: the server rejected it
+ * - rolledBack: saved, then undone because another change failed
+ * - rollbackFailed: saved, and undoing it failed (it stays on the server)
+ * - skipped: not attempted because an earlier change failed
+ */
+export type TagChangeStatus = 'applied' | 'failed' | 'rolledBack' | 'rollbackFailed' | 'skipped';
+
+export type TagChangeResult = TagChange & {
+  status: TagChangeStatus;
+  error?: string;
+};
+
+export type ChannelChange = {
+  op: TagChangeOp;
+  channel: Channel;
+  listType: ChannelListType;
+};
+
+export type ChannelChangeResult = ChannelChange & {
+  status: TagChangeStatus;
+  error?: string;
+};
+
+/**
+ * Per-tag alert settings; `snoozedUntil` null clears a snooze
+ */
+export type TagNotificationRequest = {
+  name: string;
+  tagType: TagType;
+  muted: boolean;
+  snoozedUntil: string | null;
+};
@@ -0,0 +1,31 @@
+export type ToastVariant = 'success' | 'error' | 'info';
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  variant?: ToastVariant;
+  message: string;
+  /** Optional button, e.g. "Retry" (clicking it also dismisses the toast) */
+  action?: ToastAction;
+  /** Auto-dismiss delay in ms; 0 keeps the toast until dismissed */
+  duration?: number;
+  /** Reusing an id replaces the existing toast instead of stacking a new one */
+  id?: string;
+}
+
+export interface Toast {
+  id: string;
+  variant: ToastVariant;
+  message: string;
+  action?: ToastAction;
+  duration: number;
+}
+
+export interface ToastContextType {
+  toasts: Toast[];
+  showToast: (options: ToastOptions) => string;
+  dismissToast: (id: string) => void;
+}